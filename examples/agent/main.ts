@@ -1,4 +1,4 @@
-import { Node, Flow, SharedStore, branch, Action } from '../../src/index';
+import { Node, Flow, SharedStore, branch, Action, FlowLimitError } from '../../src/index';
 import { callLLM, callLLMAsync } from '../utils/callLLM';
 
 interface SearchResult {
@@ -122,6 +122,8 @@ async function main() {
 
   // Create and run flow
   const searchAgentFlow = new Flow(decide);
+  // A model that keeps asking for searches would loop forever; stop after 10 searches and answer with what was found
+  searchAgentFlow.limits = { maxVisits: 10 };
 
   const shared: SharedStore & { context: SearchResult[]; searchTerm: string | null } = {
     query: "Who won the Nobel Prize in Physics 2024?",
@@ -133,7 +135,13 @@ async function main() {
   console.log("🤖 Starting search agent...");
   console.log("❓ Question:", shared.query);
 
-  searchAgentFlow.run(shared);
+  try {
+    searchAgentFlow.run(shared);
+  } catch (e) {
+    if (!(e instanceof FlowLimitError)) throw e;
+    console.log(`⚠️ Giving up on searching: ${e.message}`);
+    answer.run(shared);
+  }
 
   console.log("\n📊 Final Results:");
   console.log("Question:", shared.query);
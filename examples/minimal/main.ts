@@ -17,11 +17,11 @@ class SimpleNode extends Node {
   }
 }
 
+// Exported, so the CLI can run it: pocketflow run examples/minimal/main.ts
+export const flow = new Flow(new SimpleNode());
+
 // Usage without any external dependencies
 async function main() {
-  const node = new SimpleNode();
-  const flow = new Flow(node);
-
   const shared: SharedStore = {
     input: "world",
     output: null
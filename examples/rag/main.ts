@@ -1,4 +1,6 @@
 import { BatchNode, Node, Flow, SharedStore, chain } from '../../src/index';
+import { sentenceChunks } from '../../src/chunking';
+import { VectorStore } from '../../src/vector';
 import { callLLM } from '../utils/callLLM';
 
 // Mock embedding function (in real usage, you'd use a proper embedding model)
@@ -17,33 +19,6 @@ function getEmbedding(text: string): number[] {
   ];
 }
 
-// Mock index creation and search functions
-interface VectorIndex {
-  embeddings: number[][];
-  chunks: string[];
-}
-
-function createIndex(embeddings: number[][]): VectorIndex {
-  return { embeddings, chunks: [] };
-}
-
-function searchIndex(index: VectorIndex, queryEmbedding: number[], topK: number = 1): { indices: number[]; distances: number[] } {
-  const distances = index.embeddings.map((emb, idx) => {
-    // Simple cosine similarity
-    const dotProduct = emb.reduce((sum, val, i) => sum + val * queryEmbedding[i], 0);
-    const normA = Math.sqrt(emb.reduce((sum, val) => sum + val * val, 0));
-    const normB = Math.sqrt(queryEmbedding.reduce((sum, val) => sum + val * val, 0));
-    return { index: idx, distance: dotProduct / (normA * normB) };
-  });
-
-  distances.sort((a, b) => b.distance - a.distance);
-  
-  return {
-    indices: distances.slice(0, topK).map(d => d.index),
-    distances: distances.slice(0, topK).map(d => d.distance)
-  };
-}
-
 // Stage 1: Offline Indexing
 
 class ChunkDocs extends BatchNode {
@@ -61,9 +36,8 @@ class ChunkDocs extends BatchNode {
 
     const text = mockContent[filepath] || `Content of ${filepath}`;
     
-    // Chunk by sentences (simplified)
-    const sentences = text.split('. ');
-    return sentences.map(s => s.trim()).filter(s => s.length > 0);
+    // One sentence per chunk
+    return sentenceChunks(text, { size: 100 }).map(c => c.text);
   }
 
   post(shared: SharedStore, prepRes: string[], execRes: string[][]): string {
@@ -98,13 +72,11 @@ class StoreIndex extends Node {
     return { allEmbeds: shared.allEmbeds, allChunks: shared.allChunks };
   }
 
-  exec({ allEmbeds, allChunks }: { allEmbeds: number[][]; allChunks: string[] }): VectorIndex {
-    const index = createIndex(allEmbeds);
-    index.chunks = allChunks;
-    return index;
+  exec({ allEmbeds, allChunks }: { allEmbeds: number[][]; allChunks: string[] }): VectorStore {
+    return new VectorStore({ metric: "cosine" }).add(allChunks.map((text, i) => ({ id: `chunk-${i}`, vector: allEmbeds[i], text })));
   }
 
-  post(shared: SharedStore, prepRes: { allEmbeds: number[][]; allChunks: string[] }, index: VectorIndex): string {
+  post(shared: SharedStore, prepRes: { allEmbeds: number[][]; allChunks: string[] }, index: VectorStore): string {
     shared.index = index;
     console.log("🗃️ Vector index created");
     return "default";
@@ -129,15 +101,13 @@ class EmbedQuery extends Node {
 }
 
 class RetrieveDocs extends Node {
-  prep(shared: SharedStore): [number[], VectorIndex, string[]] {
-    return [shared.qEmb, shared.index, shared.allChunks];
+  prep(shared: SharedStore): [number[], VectorStore] {
+    return [shared.qEmb, shared.index];
   }
 
-  exec([qEmb, index, chunks]: [number[], VectorIndex, string[]]): string {
-    const { indices } = searchIndex(index, qEmb, 1);
-    const bestId = indices[0];
-    const relevantChunk = chunks[bestId];
-    return relevantChunk;
+  exec([qEmb, index]: [number[], VectorStore]): string {
+    const [best] = index.search(qEmb, { k: 1 });
+    return best.text!;
   }
 
   post(shared: SharedStore, prepRes: any, relevantChunk: string): string {
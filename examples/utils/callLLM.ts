@@ -1,82 +1,54 @@
-import OpenAI from 'openai';
 import * as dotenv from 'dotenv';
+import { OpenAICompatibleClient, LLMClient, LLMError, ChatMessage, ChatOptions } from '../../src/llm';
 
 // Load environment variables from .env file
 dotenv.config();
 
+const MOCK_RESPONSE = "Mock response: The universe will likely end in heat death, where entropy reaches maximum and no more work can be performed.";
+
 // Helper function to check if we have a valid API key
 function hasValidApiKey(): boolean {
   const apiKey = process.env.OPENAI_API_KEY;
   return Boolean(apiKey && apiKey.trim() !== '' && apiKey !== 'YOUR_API_KEY_HERE');
 }
 
-// Create client only when needed
-function createClient(): OpenAI | null {
-  if (!hasValidApiKey()) {
-    return null;
-  }
-  
-  try {
-    return new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!,
-      baseURL: process.env.OPENAI_API_BASE_URL || 'https://aig.quaservices.com',
-      timeout: parseInt(process.env.OPENAI_API_TIMEOUT || '10000'), // Set a timeout for requests
-    });
-  } catch (error) {
-    console.error('Failed to create OpenAI client:', error);
-    return null;
-  }
+// Create client only when needed; OPENAI_API_BASE_URL can point at any OpenAI-compatible server
+let client: LLMClient | null = null;
+export function getClient(): LLMClient {
+  client ??= new OpenAICompatibleClient({
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: process.env.OPENAI_API_BASE_URL || 'https://aig.quaservices.com',
+    model: process.env.OPENAI_MODEL || 'openai/gpt-4.1',
+    defaults: { timeout: parseInt(process.env.OPENAI_API_TIMEOUT || '10000') / 1000 },
+  });
+  return client;
 }
 
 export function callLLM(prompt: string): string {
   // For demo purposes, return a mock response if no API key is set
   if (!hasValidApiKey()) {
-    return "Mock response: The universe will likely end in heat death, where entropy reaches maximum and no more work can be performed.";
-  }
-
-  try {
-    // Note: In real usage, this should be async
-    // For simplicity in this example, we're using a synchronous approach
-    // In practice, you would use async/await with the OpenAI client
-    throw new Error("Synchronous LLM calls not supported. Use async version.");
-  } catch (error) {
-    return "Error calling LLM: " + (error as Error).message;
+    return MOCK_RESPONSE;
   }
+  // HTTP calls can't be made synchronously; nodes that need a real LLM should be AsyncNodes using callLLMAsync
+  throw new LLMError("Synchronous LLM calls are not supported. Use callLLMAsync.");
 }
 
-export async function callLLMAsync(prompt: string): Promise<string> {
+// Throws typed LLMErrors (auth, rate limit, server, connection, ...), so Node retries and fallbacks see real failures
+export async function callLLMAsync(prompt: string | ChatMessage[], opts: ChatOptions = {}): Promise<string> {
   // For demo purposes, return a mock response if no API key is set
   if (!hasValidApiKey()) {
     console.log('🔍 Debug: No valid API key found, using mock response');
     console.log('   Set OPENAI_API_KEY environment variable to use real LLM');
-    return "Mock response: The universe will likely end in heat death, where entropy reaches maximum and no more work can be performed.";
+    return MOCK_RESPONSE;
   }
 
-  console.log('🔍 Debug: API key found, attempting real LLM call');
-  const client = createClient();
-  if (!client) {
-    console.log('🔍 Debug: Failed to create client, using mock response');
-    return "Mock response: The universe will likely end in heat death, where entropy reaches maximum and no more work can be performed.";
-  }
-
-  try {
-    console.log('🔍 Debug: Making real LLM API call...');
-    const response = await client.chat.completions.create({
-      model: "openai/gpt-4.1",
-      messages: [{ role: "user", content: prompt }]
-    });
-
-    const result = response.choices[0]?.message?.content || "No response generated";
-    console.log('🔍 Debug: LLM call successful');
-    return result;
-  } catch (error) {
-    console.error('❌ LLM API call failed:', error);
-    return "Error calling LLM: " + (error as Error).message;
-  }
+  const messages: ChatMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+  const response = await getClient().chat(messages, opts);
+  return response.content || "No response generated";
 }
 
 // Example usage
 if (require.main === module) {
   const prompt = "What is the meaning of life?";
-  console.log(callLLM(prompt));
-}
\ No newline at end of file
+  callLLMAsync(prompt).then(console.log, console.error);
+}
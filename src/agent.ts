@@ -0,0 +1,124 @@
+// Tool-using agent - a decide/tool loop built from AsyncNode + AsyncFlow, with a registry of schema-checked async tools
+import { AsyncFlow, AsyncNode, FlowError, SharedStore } from './index';
+import { ChatMessage, ChatResponse, LLMClient, ToolCall, ToolSpec } from './llm';
+import { JsonSchema, SchemaIssue, validateSchema } from './structured';
+
+export interface ToolContext { shared: SharedStore; signal?: AbortSignal; }
+export interface Tool<I = any, O = unknown> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  handler: (input: I, ctx: ToolContext) => Promise<O>;
+}
+// Identity helper so `input` gets its type from the generic: defineTool<{ query: string }>({ ... })
+export const defineTool = <I, O = unknown>(tool: Tool<I, O>): Tool<I, O> => tool;
+
+export class ToolInputError extends FlowError {
+  constructor(public tool: string, public issues: SchemaIssue[]) {
+    super(`Invalid input for tool '${tool}': ${issues.map(i => `${i.path || "(root)"} ${i.message}`).join("; ")}`); this.name = "ToolInputError";
+  }
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+  constructor(tools: Tool[] = []) { tools.forEach(t => this.register(t)); }
+
+  register(tool: Tool): this {
+    if (!/^[\w-]{1,64}$/.test(tool.name)) throw new FlowError(`Tool name '${tool.name}' must be 1-64 letters, digits, '_' or '-'`);
+    if (this.tools.has(tool.name)) throw new FlowError(`Tool '${tool.name}' is already registered`);
+    this.tools.set(tool.name, tool); return this;
+  }
+  get(name: string): Tool | undefined { return this.tools.get(name); }
+  list(): Tool[] { return [...this.tools.values()]; }
+  specs(): ToolSpec[] { return this.list().map(t => ({ name: t.name, description: t.description, parameters: t.inputSchema as Record<string, unknown> })); }
+  // Validates `input` against the tool's schema before calling its handler
+  async call(name: string, input: unknown, ctx: ToolContext): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) throw new FlowError(`Unknown tool '${name}'; available: ${[...this.tools.keys()].join(", ")}`);
+    const issues = validateSchema(input, tool.inputSchema);
+    if (issues.length) throw new ToolInputError(name, issues);
+    return tool.handler(input, ctx);
+  }
+}
+
+export interface ToolStep { tool: string; input: unknown; output?: unknown; error?: string; }
+// Kept in `shared[key]`: the conversation with the model, every tool call made, and the final answer once there is one
+export interface AgentState { messages: ChatMessage[]; steps: ToolStep[]; iterations: number; answer: string | null; }
+
+export interface AgentOptions {
+  llm: LLMClient;
+  tools: ToolRegistry | Tool[];
+  system?: string;
+  // Decide turns that may still call tools; the turn after the last one must answer
+  maxIterations?: number;
+  key?: string;
+  // The task for the model; defaults to `shared.question`
+  question?: (shared: SharedStore) => string;
+}
+
+const stateOf = (shared: SharedStore, key: string): AgentState => shared[key] ??= { messages: [], steps: [], iterations: 0, answer: null };
+const toText = (value: unknown): string => typeof value === "string" ? value : JSON.stringify(value) ?? "null";
+
+// Asks the model for its next move: "tool" when it requested tool calls, "answer" when it replied with text
+export class AgentDecideNode extends AsyncNode<SharedStore, { messages: ChatMessage[]; tools: ToolSpec[] }, ChatResponse, "tool" | "answer"> {
+  constructor(public agent: Required<Omit<AgentOptions, "tools" | "system">> & { tools: ToolRegistry; system?: string }) { super(); }
+
+  async prepAsync(shared: SharedStore): Promise<{ messages: ChatMessage[]; tools: ToolSpec[] }> {
+    const state = stateOf(shared, this.agent.key), last = state.iterations >= this.agent.maxIterations;
+    if (!state.messages.length) state.messages.push({ role: "user", content: this.agent.question(shared) });
+    // A copy: state.messages keeps growing after this turn
+    const messages = last ? [...state.messages, { role: "user" as const, content: "You have used all your tool calls. Answer now with what you know." }] : [...state.messages];
+    return { messages, tools: last ? [] : this.agent.tools.specs() };
+  }
+  async execAsync({ messages, tools }: { messages: ChatMessage[]; tools: ToolSpec[] }): Promise<ChatResponse> {
+    const res = await this.agent.llm.chat(messages, { system: this.agent.system, tools, signal: this.signal });
+    if (res.usage) this.reportUsage(res.usage, res.model);
+    return res;
+  }
+  async postAsync(shared: SharedStore, prepRes: unknown, res: ChatResponse): Promise<"tool" | "answer"> {
+    const state = stateOf(shared, this.agent.key);
+    state.messages.push({ role: "assistant", content: res.content, ...(res.toolCalls.length ? { toolCalls: res.toolCalls } : {}) });
+    if (res.toolCalls.length && state.iterations < this.agent.maxIterations) { state.iterations++; return "tool"; }
+    state.answer = res.content; return "answer";
+  }
+}
+
+// Runs the tool calls of the last assistant message; a failing tool reports its error to the model instead of failing the flow
+export class AgentToolNode extends AsyncNode<SharedStore, ToolCall[], ToolStep[], "decide"> {
+  constructor(public tools: ToolRegistry, public key: string) { super(); }
+
+  async prepAsync(shared: SharedStore): Promise<ToolCall[]> { return stateOf(shared, this.key).messages.slice(-1)[0]?.toolCalls ?? []; }
+  async execAsync(calls: ToolCall[]): Promise<ToolStep[]> {
+    const steps: ToolStep[] = [];
+    for (const call of calls) {
+      try { steps.push({ tool: call.name, input: call.arguments, output: await this.tools.call(call.name, call.arguments, { shared: this._shared, signal: this.signal }) }); }
+      catch (e) { if (this.signal?.aborted) throw e; steps.push({ tool: call.name, input: call.arguments, error: (e as Error).message }); }
+    }
+    return steps;
+  }
+  async postAsync(shared: SharedStore, calls: ToolCall[], steps: ToolStep[]): Promise<"decide"> {
+    const state = stateOf(shared, this.key);
+    steps.forEach((step, i) => {
+      state.steps.push(step);
+      state.messages.push({ role: "tool", toolCallId: calls[i].id, content: step.error !== undefined ? `Error: ${step.error}` : toText(step.output) });
+    });
+    return "decide";
+  }
+}
+
+// decide --tool--> tools --decide--> decide until the model answers; the answer is in `shared[key].answer` and the flow ends with the
+// default action, so `chain(agent, next)` continues a larger flow
+export class Agent extends AsyncFlow {
+  public decide: AgentDecideNode;
+  public toolNode: AgentToolNode;
+  constructor(opts: AgentOptions) {
+    super();
+    const tools = opts.tools instanceof ToolRegistry ? opts.tools : new ToolRegistry(opts.tools);
+    const agent = { llm: opts.llm, tools, system: opts.system, maxIterations: opts.maxIterations ?? 5, key: opts.key ?? "agent", question: opts.question ?? ((s: SharedStore) => String(s.question)) };
+    this.decide = new AgentDecideNode(agent); this.toolNode = new AgentToolNode(tools, agent.key);
+    this.decide.onAction("tool").connectTo(this.toolNode).onAction("decide").connectTo(this.decide);
+    // Plain end node, so "answer" is a handled action rather than an unmatched one
+    this.decide.onAction("answer").connectTo(new AsyncNode());
+    this.start(this.decide);
+  }
+}
@@ -0,0 +1,98 @@
+// Exec result caching - `node.cache = new ResultCache(store)` skips exec/execAsync for inputs it has already seen
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnyNode, ExecCache } from './index';
+
+// `expiresAt` is a Date.now() timestamp, null for no expiry
+export interface CacheEntry { value: unknown; expiresAt: number | null; }
+// Synchronous, so the same cache works for sync and async nodes
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+// JSON with sorted object keys, so equal inputs hash the same however they were built
+const canonical = (v: unknown): string => {
+  if (v === undefined) return "undefined";
+  if (typeof v === "function" || typeof v === "symbol") throw new TypeError(`Cannot hash a ${typeof v}`);
+  if (typeof v === "bigint") return `${v}n`;
+  if (v === null || typeof v !== "object" || v instanceof Date) return JSON.stringify(v);
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (v instanceof Map) return `Map${canonical([...v.entries()])}`;
+  if (v instanceof Set) return `Set${canonical([...v])}`;
+  const obj = v as Record<string, unknown>;
+  return `{${Object.keys(obj).sort().map(k => `${JSON.stringify(k)}:${canonical(obj[k])}`).join(",")}}`;
+};
+export const stableHash = (value: unknown): string => createHash("sha256").update(canonical(value)).digest("hex");
+
+// `ttl` in seconds; `version` invalidates every entry when bumped (a node class can add its own with `static cacheVersion = "2"`);
+// `bypass` skips the cache for a single exec call, neither reading nor writing it
+export interface ResultCacheOptions {
+  ttl?: number;
+  version?: string;
+  bypass?: (input: unknown, node: AnyNode) => boolean;
+}
+
+// Keys cover the node class, both version tags, the node's params and the exec input; batch nodes are cached per item
+export class ResultCache implements ExecCache {
+  constructor(public store: CacheStore = new MemoryCacheStore(), public opts: ResultCacheOptions = {}) {}
+
+  key(node: AnyNode, input: unknown): string | null {
+    if (this.opts.bypass?.(input, node)) return null;
+    const nodeVersion = (node.constructor as { cacheVersion?: string }).cacheVersion ?? null;
+    return stableHash({ node: node.constructor.name, nodeVersion, version: this.opts.version ?? null, params: node.params, input });
+  }
+  get(key: string): { value: unknown } | undefined {
+    const entry = this.store.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) { this.store.delete(key); return undefined; }
+    return { value: entry.value };
+  }
+  set(key: string, value: unknown): void {
+    this.store.set(key, { value, expiresAt: this.opts.ttl ? Date.now() + this.opts.ttl * 1000 : null });
+  }
+}
+
+// Least-recently-used eviction beyond `maxEntries`; values are kept by reference, not copied
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  constructor(public maxEntries: number = 1000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) { this.entries.delete(key); this.entries.set(key, entry); }
+    return entry;
+  }
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key); this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) this.entries.delete(this.entries.keys().next().value!);
+  }
+  delete(key: string): void { this.entries.delete(key); }
+  clear(): void { this.entries.clear(); }
+  get size(): number { return this.entries.size; }
+}
+
+// One `<key>.json` file per entry, so the cache survives restarts; values must be JSON-serializable
+export class FileCacheStore implements CacheStore {
+  constructor(public dir: string) {}
+
+  private file(key: string): string { return path.join(this.dir, `${encodeURIComponent(key)}.json`); }
+  get(key: string): CacheEntry | undefined {
+    try { const { value, expiresAt } = JSON.parse(fs.readFileSync(this.file(key), 'utf8')); return { value, expiresAt: expiresAt ?? null }; }
+    catch (e) { if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined; throw e; }
+  }
+  set(key: string, entry: CacheEntry): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const file = this.file(key), tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(entry));
+    fs.renameSync(tmp, file);
+  }
+  delete(key: string): void { fs.rmSync(this.file(key), { force: true }); }
+  clear(): void {
+    if (!fs.existsSync(this.dir)) return;
+    for (const f of fs.readdirSync(this.dir)) if (f.endsWith('.json')) fs.rmSync(path.join(this.dir, f), { force: true });
+  }
+}
@@ -0,0 +1,32 @@
+// Checkpoint stores for AsyncFlow.runAsync / resumeAsync
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Checkpoint, CheckpointStore } from './index';
+
+// Keeps checkpoints as JSON strings so later writes to `shared` cannot leak into a saved checkpoint
+export class MemoryCheckpointStore implements CheckpointStore {
+  private data = new Map<string, string>();
+
+  async save(checkpoint: Checkpoint): Promise<void> { this.data.set(checkpoint.id, JSON.stringify(checkpoint)); }
+  async load(id: string): Promise<Checkpoint | null> { const raw = this.data.get(id); return raw ? JSON.parse(raw) : null; }
+  async delete(id: string): Promise<void> { this.data.delete(id); }
+  ids(): string[] { return [...this.data.keys()]; }
+}
+
+// One `<id>.json` file per run; writes go through a temp file + rename so a crash never leaves a torn checkpoint
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(public dir: string) {}
+
+  private file(id: string): string { return path.join(this.dir, `${encodeURIComponent(id)}.json`); }
+  async save(checkpoint: Checkpoint): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.file(checkpoint.id), tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(checkpoint, null, 2));
+    await fs.rename(tmp, file);
+  }
+  async load(id: string): Promise<Checkpoint | null> {
+    try { return JSON.parse(await fs.readFile(this.file(id), 'utf8')); }
+    catch (e) { if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null; throw e; }
+  }
+  async delete(id: string): Promise<void> { await fs.rm(this.file(id), { force: true }); }
+}
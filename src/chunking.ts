@@ -0,0 +1,187 @@
+// Text chunking for RAG - fixed-size, recursive, sentence and Markdown-heading chunkers with source offsets, limits measured in characters
+// or by a pluggable token counter, and ChunkNode to run them over documents in a flow
+import { BatchNode, SharedStore } from './index';
+import { Document, Metadata } from './vector';
+
+// `text` is always `source.slice(start, end)`; `index` counts chunks within one source. ChunkNode adds an `id` for sources that have one
+export interface Chunk { text: string; start: number; end: number; index: number; metadata: Metadata; id?: string; }
+// Measures text in the unit `size` and `overlap` are given in: characters by default, or tokens with e.g. `t => encode(t).length`
+export type LengthFunction = (text: string) => number;
+export interface ChunkOptions {
+  size?: number;
+  // How much of the end of one chunk the next repeats; must be smaller than `size`
+  overlap?: number;
+  length?: LengthFunction;
+  // Copied onto every chunk
+  metadata?: Metadata;
+}
+// Tried in order: text is split on the first separator that occurs, and pieces still too long on the next ones; "" splits anywhere
+export interface RecursiveChunkOptions extends ChunkOptions { separators?: string[]; }
+export type Chunker = (text: string, opts?: RecursiveChunkOptions) => Chunk[];
+
+type Span = [number, number];
+const DEFAULT_SEPARATORS = ["\n\n", "\n", ". ", " ", ""];
+
+const settings = (opts: ChunkOptions): { size: number; overlap: number; length: LengthFunction } => {
+  const size = opts.size ?? 1000, overlap = opts.overlap ?? 0;
+  if (!(size > 0)) throw new RangeError(`Chunk size must be positive, got ${size}`);
+  if (!(overlap >= 0 && overlap < size)) throw new RangeError(`Chunk overlap must be at least 0 and below the size ${size}, got ${overlap}`);
+  return { size, overlap, length: opts.length ?? (t => t.length) };
+};
+
+// Largest end in (from, to] whose slice fits `limit` (at least from + 1, so splitting always moves on): gallops, then bisects
+const fit = (text: string, from: number, to: number, limit: number, length: LengthFunction): number => {
+  let ok = from, bad = to + 1;
+  for (let step = Math.max(1, Math.floor(limit)); ok < to; step *= 2) {
+    const end = Math.min(to, from + step);
+    if (length(text.slice(from, end)) <= limit) ok = end; else { bad = end; break; }
+  }
+  while (bad - ok > 1) { const mid = (ok + bad) >> 1; if (length(text.slice(from, mid)) <= limit) ok = mid; else bad = mid; }
+  return Math.max(ok, from + 1);
+};
+
+// Whitespace is trimmed off both ends (by moving the offsets) unless `trim` is false; empty chunks are dropped
+const toChunks = (text: string, spans: [Span, Metadata][], trim: boolean = true): Chunk[] => {
+  const chunks: Chunk[] = [];
+  for (let [[start, end], metadata] of spans) {
+    if (trim) { while (start < end && /\s/.test(text[start])) start++; while (end > start && /\s/.test(text[end - 1])) end--; }
+    if (start < end) chunks.push({ text: text.slice(start, end), start, end, index: chunks.length, metadata: { ...metadata } });
+  }
+  return chunks;
+};
+
+// Packs consecutive pieces into chunks of up to `size`; the next chunk restarts at the earliest pieces that fit within `overlap`
+const merge = (text: string, pieces: Span[], size: number, overlap: number, length: LengthFunction): Span[] => {
+  const out: Span[] = [];
+  for (let i = 0; i < pieces.length;) {
+    let j = i + 1;
+    while (j < pieces.length && length(text.slice(pieces[i][0], pieces[j][1])) <= size) j++;
+    out.push([pieces[i][0], pieces[j - 1][1]]);
+    if (j >= pieces.length) break;
+    let k = j;
+    while (k - 1 > i && length(text.slice(pieces[k - 1][0], pieces[j - 1][1])) <= overlap && length(text.slice(pieces[k - 1][0], pieces[j][1])) <= size) k--;
+    i = k;
+  }
+  return out;
+};
+
+// Cuts [from, to) at every occurrence of `sep`, keeping the separator at the end of the piece before it
+const splitOn = (text: string, [from, to]: Span, sep: string): Span[] => {
+  const spans: Span[] = [];
+  let start = from;
+  for (let i = text.indexOf(sep, from); i >= 0 && i + sep.length <= to; i = text.indexOf(sep, i + sep.length)) {
+    spans.push([start, i + sep.length]); start = i + sep.length;
+  }
+  if (start < to) spans.push([start, to]);
+  return spans;
+};
+
+// Pieces of [from, to), each fitting `size`, split on the coarsest separator that works
+const recursivePieces = (text: string, span: Span, separators: string[], size: number, length: LengthFunction): Span[] => {
+  if (length(text.slice(...span)) <= size) return [span];
+  const i = separators.findIndex(s => s === "" || text.slice(...span).includes(s));
+  if (i < 0 || separators[i] === "") {
+    const spans: Span[] = [];
+    for (let start = span[0]; start < span[1];) { const end = fit(text, start, span[1], size, length); spans.push([start, end]); start = end; }
+    return spans;
+  }
+  return splitOn(text, span, separators[i]).flatMap(p => length(text.slice(...p)) <= size ? [p] : recursivePieces(text, p, separators.slice(i + 1), size, length));
+};
+
+// Exactly `size` per chunk (the last may be shorter), ignoring word and sentence boundaries; chunks are not trimmed
+export function fixedSizeChunks(text: string, opts: ChunkOptions = {}): Chunk[] {
+  const { size, overlap, length } = settings(opts), spans: Span[] = [];
+  for (let start = 0; start < text.length;) {
+    const end = fit(text, start, text.length, size, length);
+    spans.push([start, end]);
+    if (end >= text.length) break;
+    // Earliest start after the current one whose slice up to `end` fits the overlap
+    let lo = start + 1, hi = end;
+    while (lo < hi) { const mid = (lo + hi) >> 1; if (length(text.slice(mid, end)) <= overlap) hi = mid; else lo = mid + 1; }
+    start = lo;
+  }
+  return toChunks(text, spans.map(s => [s, { ...opts.metadata }]), false);
+}
+
+// Splits on paragraphs, then lines, sentences, words and finally anywhere, and packs the pieces back up to `size`
+export function recursiveChunks(text: string, opts: RecursiveChunkOptions = {}): Chunk[] {
+  const { size, overlap, length } = settings(opts);
+  const pieces = recursivePieces(text, [0, text.length], opts.separators ?? DEFAULT_SEPARATORS, size, length);
+  return toChunks(text, merge(text, pieces, size, overlap, length).map(s => [s, { ...opts.metadata }]));
+}
+
+const ABBREVIATIONS = /(?:^|[\s(])(?:mr|mrs|ms|dr|prof|sr|jr|st|vs|(?:[a-z]\.)+[a-z]|cf|fig|no|inc|ltd|[a-z])\.$/i;
+// Sentence spans, trailing whitespace included: ends at . ! ? (plus closing quotes or brackets) before whitespace, and at blank lines
+const splitSentences = (text: string): Span[] => {
+  const spans: Span[] = [];
+  let start = 0;
+  for (const m of text.matchAll(/[.!?…]+["'”’)\]]*\s+|\n\s*\n\s*/g)) {
+    const end = m.index! + m[0].length;
+    if (/^[.]/.test(m[0]) && ABBREVIATIONS.test(text.slice(start, m.index! + 1))) continue;
+    spans.push([start, end]); start = end;
+  }
+  if (start < text.length) spans.push([start, text.length]);
+  return spans;
+};
+
+// Whole sentences per chunk, overlapping by whole sentences; a sentence longer than `size` is split on words
+export function sentenceChunks(text: string, opts: ChunkOptions = {}): Chunk[] {
+  const { size, overlap, length } = settings(opts);
+  const pieces = splitSentences(text).flatMap(s => recursivePieces(text, s, [" ", ""], size, length));
+  return toChunks(text, merge(text, pieces, size, overlap, length).map(s => [s, { ...opts.metadata }]));
+}
+
+// One chunk per heading section when it fits, else the section split recursively; chunks never cross a heading, and carry the
+// heading path in `metadata.headings` (["Guide", "Install"] under "# Guide" / "## Install"). Headings inside code fences are ignored
+export function markdownChunks(text: string, opts: RecursiveChunkOptions = {}): Chunk[] {
+  const { size, overlap, length } = settings(opts), sections: { span: Span; headings: string[] }[] = [];
+  const stack: { level: number; title: string }[] = [];
+  let sectionStart = 0, headings: string[] = [], fence: string | null = null;
+  for (let pos = 0; pos < text.length;) {
+    const nl = text.indexOf("\n", pos), end = nl < 0 ? text.length : nl + 1, line = text.slice(pos, end).trimEnd();
+    const marker = /^\s{0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) fence = fence ? null : marker;
+    const heading = !fence && !marker ? /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line) : null;
+    if (heading) {
+      if (pos > sectionStart) sections.push({ span: [sectionStart, pos], headings });
+      while (stack.length && stack[stack.length - 1].level >= heading[1].length) stack.pop();
+      stack.push({ level: heading[1].length, title: heading[2] });
+      sectionStart = pos; headings = stack.map(h => h.title);
+    }
+    pos = end;
+  }
+  if (sectionStart < text.length) sections.push({ span: [sectionStart, text.length], headings });
+  return toChunks(text, sections.flatMap(s => merge(text, recursivePieces(text, s.span, opts.separators ?? DEFAULT_SEPARATORS, size, length), size, overlap, length)
+    .map((span): [Span, Metadata] => [span, { ...opts.metadata, headings: s.headings }])));
+}
+
+export const chunkers: Record<"fixed" | "recursive" | "sentence" | "markdown", Chunker> = {
+  fixed: fixedSizeChunks, recursive: recursiveChunks, sentence: sentenceChunks, markdown: markdownChunks,
+};
+
+export interface ChunkNodeOptions extends RecursiveChunkOptions {
+  strategy?: keyof typeof chunkers | Chunker;
+  // Documents (strings or { id?, text, metadata? }) are read from `shared[key]`, chunks written to `shared[outputKey]`
+  key?: string;
+  outputKey?: string;
+}
+
+// Chunks each document of `shared[key]` (default "documents") and writes all chunks, flattened, to `shared[outputKey]` (default "chunks").
+// A document's metadata is copied onto its chunks; one with an id gives them ids `${id}#${index}` and `metadata.source`, ready for
+// IndexDocumentsNode({ key: "chunks" })
+export class ChunkNode extends BatchNode<SharedStore, Document, Chunk[]> {
+  constructor(public opts: ChunkNodeOptions = {}) { super(); }
+
+  prep(shared: SharedStore): Document[] {
+    return ((shared[this.opts.key ?? "documents"] ?? []) as (string | Document)[]).map(d => typeof d === "string" ? { text: d } : d);
+  }
+  exec(doc: Document): Chunk[] {
+    const { strategy = "recursive", key, outputKey, ...opts } = this.opts, chunk = typeof strategy === "function" ? strategy : chunkers[strategy];
+    const chunks = chunk(doc.text, { ...opts, metadata: { ...opts.metadata, ...doc.metadata } });
+    return doc.id === undefined ? chunks : chunks.map(c => ({ ...c, id: `${doc.id}#${c.index}`, metadata: { ...c.metadata, source: doc.id } }));
+  }
+  post(shared: SharedStore, docs: Document[], chunks: Chunk[][]): undefined {
+    shared[this.opts.outputKey ?? "chunks"] = chunks.flat();
+    return undefined;
+  }
+}
@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+// Command-line runner - `pocketflow run|viz|validate <module>` on the flow a module exports, with the initial shared store from a JSON
+// file or stdin
+import * as fs from 'fs';
+import * as path from 'path';
+import { format } from 'util';
+import { Action, Flow, SharedStore } from './index';
+import { TraceRecorder } from './trace';
+import { validateFlow } from './validate';
+import { toDot, toMermaid } from './viz';
+
+export interface CliIO {
+  out: (text: string) => void;
+  err: (text: string) => void;
+  stdin: () => Promise<string>;
+  cwd: string;
+}
+
+const USAGE = `Usage: pocketflow <command> <module> [options]
+
+Commands:
+  run <module>        Run the flow and print the final shared store and action as JSON
+  viz <module>        Print the flow graph as Mermaid, or Graphviz DOT with --format dot
+  validate <module>   Check the flow graph; exits with 1 when there are errors
+
+Options:
+  --export <name>     Module export holding the flow (default: the default export, or the only exported flow)
+  --shared <file>     Initial shared store as a JSON file, or - to read it from stdin (default: {})
+  --trace             Print the node path with durations and actions to stderr
+  --max-steps <n>     Fail the run after n node steps, e.g. to stop a runaway agent loop
+  --format <format>   viz: mermaid or dot
+  --direction <dir>   viz: TD or LR
+  --strict            validate: report warnings as errors
+`;
+
+// Exit code 2 and the usage text, unlike errors of the flow itself
+class UsageError extends Error { constructor(message: string) { super(message); this.name = "UsageError"; } }
+
+interface Args { command: string; module: string; flags: Record<string, string | true>; }
+const VALUE_FLAGS = ["export", "shared", "max-steps", "format", "direction"], BOOLEAN_FLAGS = ["trace", "strict", "help"];
+
+const parseArgs = (argv: string[]): Args => {
+  const positional: string[] = [], flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h") { flags.help = true; continue; }
+    if (!arg.startsWith("--")) { positional.push(arg); continue; }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s);
+    if (BOOLEAN_FLAGS.includes(name)) flags[name] = true;
+    else if (VALUE_FLAGS.includes(name)) {
+      const value = inline ?? argv[++i];
+      if (value === undefined) throw new UsageError(`--${name} needs a value`);
+      flags[name] = value;
+    } else throw new UsageError(`Unknown option --${name}`);
+  }
+  const [command = "", module = "", ...extra] = positional;
+  if (extra.length) throw new UsageError(`Unexpected argument '${extra[0]}'`);
+  return { command, module, flags };
+};
+
+// Also matches flows built with another copy of the library, e.g. a module importing `pocketflow-ts` while the CLI runs from source
+const isFlow = (v: unknown): v is Flow<any> =>
+  v instanceof Flow || (!!v && typeof v === "object" && "startNode" in v && typeof (v as Flow).run === "function");
+// `run` works with any copy, but viz and validate tell flows from nodes with `instanceof` and would miss a foreign flow's nested flows
+const ownFlow = (flow: Flow<any>, command: string): Flow<any> => {
+  if (flow instanceof Flow) return flow;
+  throw new UsageError(`'${command}' needs a flow built with the pocketflow-ts this CLI runs from, not another copy; run the CLI installed next to the module`);
+};
+
+const loadModule = (file: string, cwd: string): Record<string, unknown> => {
+  const abs = path.resolve(cwd, file);
+  let resolved: string;
+  try { resolved = require.resolve(abs); } catch { throw new UsageError(`Cannot find module '${file}'`); }
+  if (/\.[cm]?ts$/.test(resolved) && !require.extensions?.[".ts"]) {
+    let tsNode: { register: (opts: object) => void };
+    try { tsNode = require(require.resolve("ts-node", { paths: [cwd, __dirname] })); }
+    catch { throw new UsageError(`'${file}' is TypeScript: install ts-node, or point to the compiled .js`); }
+    tsNode.register({ transpileOnly: true });
+  }
+  return require(resolved);
+};
+
+// `--export`, else the default export, else the one flow the module exports
+const findFlow = (mod: Record<string, unknown>, file: string, name: string | undefined): Flow<any> => {
+  if (name !== undefined) {
+    if (!isFlow(mod[name])) throw new UsageError(`'${file}' has no flow export named '${name}'`);
+    return mod[name] as Flow<any>;
+  }
+  if (isFlow(mod.default)) return mod.default;
+  const flows = Object.entries(mod).filter(([, v]) => isFlow(v));
+  if (flows.length === 1) return flows[0][1] as Flow<any>;
+  if (!flows.length) throw new UsageError(`'${file}' exports no Flow or AsyncFlow`);
+  throw new UsageError(`'${file}' exports several flows (${flows.map(([k]) => k).join(", ")}); pick one with --export`);
+};
+
+const readShared = async (source: string | undefined, io: CliIO): Promise<SharedStore> => {
+  if (source === undefined) return {};
+  const text = source === "-" ? await io.stdin() : fs.readFileSync(path.resolve(io.cwd, source), "utf8");
+  let shared: unknown;
+  try { shared = JSON.parse(text); } catch (e) { throw new UsageError(`Shared store ${source === "-" ? "from stdin" : `'${source}'`} is not valid JSON: ${(e as Error).message}`); }
+  if (!shared || typeof shared !== "object" || Array.isArray(shared)) throw new UsageError("The shared store must be a JSON object");
+  return shared as SharedStore;
+};
+
+// console.log / info / debug from the nodes go to stderr while the flow runs, so stdout holds only the JSON result
+const logsToStderr = async <T>(io: CliIO, fn: () => Promise<T>): Promise<T> => {
+  const { log, info, debug } = console;
+  console.log = console.info = console.debug = (...args: unknown[]) => io.err(format(...args) + "\n");
+  try { return await fn(); } finally { Object.assign(console, { log, info, debug }); }
+};
+
+const run = async (flow: Flow<any>, args: Args, io: CliIO): Promise<number> => {
+  const shared = await readShared(args.flags.shared as string | undefined, io);
+  if (args.flags["max-steps"] !== undefined) {
+    const maxSteps = Number(args.flags["max-steps"]);
+    if (!Number.isInteger(maxSteps) || maxSteps < 1) throw new UsageError("--max-steps must be a positive integer");
+    flow.limits = { ...flow.limits, maxSteps };
+  }
+  const recorder = args.flags.trace ? new TraceRecorder() : null;
+  if (recorder) flow.use(recorder);
+  let action: Action;
+  try { action = await logsToStderr(io, async () => typeof (flow as any)._runAsync === "function" ? flow.runAsync(shared) : flow.run(shared)); }
+  finally { if (recorder) io.err(recorder.format() + "\n"); }
+  io.out(JSON.stringify({ action: action ?? null, shared }, null, 2) + "\n");
+  return 0;
+};
+
+const viz = (flow: Flow<any>, args: Args, io: CliIO): number => {
+  const { format = "mermaid", direction = "TD" } = args.flags;
+  if (format !== "mermaid" && format !== "dot") throw new UsageError(`--format must be mermaid or dot, not '${format}'`);
+  if (direction !== "TD" && direction !== "LR") throw new UsageError(`--direction must be TD or LR, not '${direction}'`);
+  io.out((format === "dot" ? toDot : toMermaid)(ownFlow(flow, "viz"), { direction }) + "\n");
+  return 0;
+};
+
+const validate = (flow: Flow<any>, args: Args, io: CliIO): number => {
+  const { valid, issues } = validateFlow(ownFlow(flow, "validate"), { strict: args.flags.strict === true });
+  for (const issue of issues) io.out(`${issue.severity} ${issue.code} at ${issue.path}: ${issue.message}\n`);
+  if (!issues.length) io.out("No issues found\n");
+  return valid ? 0 : 1;
+};
+
+const COMMANDS: Record<string, (flow: Flow<any>, args: Args, io: CliIO) => number | Promise<number>> = { run, viz, validate };
+
+const processIO = (): CliIO => ({
+  out: text => process.stdout.write(text),
+  err: text => process.stderr.write(text),
+  stdin: () => new Promise((resolve, reject) => {
+    let data = "";
+    process.stdin.setEncoding("utf8").on("data", chunk => { data += chunk; }).on("end", () => resolve(data)).on("error", reject);
+  }),
+  cwd: process.cwd(),
+});
+
+// Returns the exit code: 0 on success, 1 when the flow fails or validation finds errors, 2 on bad usage
+export async function main(argv: string[], io: CliIO = processIO()): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (args.flags.help) { io.out(USAGE); return 0; }
+    const command = COMMANDS[args.command];
+    if (!command) throw new UsageError(args.command ? `Unknown command '${args.command}'` : "Missing command");
+    if (!args.module) throw new UsageError(`Missing module: pocketflow ${args.command} <module>`);
+    return await command(findFlow(loadModule(args.module, io.cwd), args.module, args.flags.export as string | undefined), args, io);
+  } catch (e) {
+    if (e instanceof UsageError) { io.err(`${e.message}\n\n${USAGE}`); return 2; }
+    io.err(`${e instanceof Error ? `${e.name}: ${e.message}` : String(e)}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) main(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,172 @@
+// Declarative flows - build Flow/AsyncFlow graphs from JSON documents through a node registry, and serialize them back
+import { AnyNode, Flow, AsyncFlow, BatchFlow, AsyncBatchFlow, AsyncParallelBatchFlow, Node, FlowError, Params } from './index';
+
+export interface NodeDefinition {
+  type: string;
+  params?: Params;
+  retries?: number;
+  wait?: number;
+  next?: Record<string, string>;
+  // Only for flow types: the nested sub-flow
+  start?: string;
+  nodes?: Record<string, NodeDefinition>;
+}
+export interface FlowDefinition { type?: string; params?: Params; start: string; nodes: Record<string, NodeDefinition>; }
+export interface DefinitionIssue { path: string; message: string; }
+
+export class FlowDefinitionError extends FlowError {
+  constructor(public issues: DefinitionIssue[]) {
+    super(`Invalid flow definition:\n${issues.map(i => `  ${i.path || "/"}: ${i.message}`).join("\n")}`);
+    this.name = "FlowDefinitionError";
+  }
+}
+
+// JSON Schema (draft-07) of the document format, for editors and external tooling; loadFlow checks the same rules itself
+export const flowDefinitionSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $ref: "#/definitions/flow",
+  definitions: {
+    flow: {
+      type: "object", required: ["start", "nodes"], additionalProperties: false,
+      properties: {
+        type: { type: "string" }, params: { type: "object" }, start: { type: "string" },
+        nodes: { type: "object", additionalProperties: { $ref: "#/definitions/node" } },
+      },
+    },
+    node: {
+      type: "object", required: ["type"], additionalProperties: false,
+      properties: {
+        type: { type: "string" }, params: { type: "object" },
+        retries: { type: "integer", minimum: 1 }, wait: { type: "number", minimum: 0 },
+        next: { type: "object", additionalProperties: { type: "string" } },
+        start: { type: "string" }, nodes: { type: "object", additionalProperties: { $ref: "#/definitions/node" } },
+      },
+    },
+  },
+} as const;
+
+export type NodeClass = new (...args: any[]) => AnyNode;
+
+export class NodeRegistry {
+  private classes = new Map<string, NodeClass>();
+
+  constructor() {
+    for (const cls of [Flow, AsyncFlow, BatchFlow, AsyncBatchFlow, AsyncParallelBatchFlow]) this.register(cls.name, cls);
+  }
+  register(type: string, cls: NodeClass): this {
+    if (this.classes.has(type)) throw new FlowError(`Node type '${type}' is already registered`);
+    this.classes.set(type, cls); return this;
+  }
+  get(type: string): NodeClass | undefined { return this.classes.get(type); }
+  typeOf(node: AnyNode): string | undefined {
+    for (const [type, cls] of this.classes) if (node.constructor === cls) return type;
+    return undefined;
+  }
+  isFlow(type: string): boolean { const cls = this.classes.get(type); return !!cls && (cls === Flow || cls.prototype instanceof Flow); }
+}
+
+const pointer = (...parts: string[]): string => parts.map(p => `/${p.replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Every problem in the document with its JSON Pointer location, e.g. `/nodes/decide/next/search: unknown node 'serch'`
+export function checkFlowDefinition(doc: unknown, registry: NodeRegistry): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [], add = (path: string, message: string): void => { issues.push({ path, message }); };
+  const checkKeys = (v: Record<string, unknown>, path: string, allowed: string[]): void => {
+    for (const k of Object.keys(v)) if (!allowed.includes(k)) add(path + pointer(k), `unknown property '${k}'`);
+  };
+  const checkFlow = (v: unknown, path: string, type: string | undefined): void => {
+    if (!isObject(v)) return add(path, "must be an object");
+    if (type !== undefined && !registry.isFlow(type)) add(path + pointer("type"), `'${type}' is not a flow type`);
+    if (typeof v.start !== "string") add(path + pointer("start"), "must be a string naming the start node");
+    if (!isObject(v.nodes)) return add(path + pointer("nodes"), "must be an object of node definitions");
+    if (v.params !== undefined && !isObject(v.params)) add(path + pointer("params"), "must be an object");
+    const ids = Object.keys(v.nodes);
+    if (typeof v.start === "string" && !ids.includes(v.start)) add(path + pointer("start"), `unknown node '${v.start}'`);
+    for (const id of ids) checkNode(v.nodes[id], path + pointer("nodes", id), ids);
+  };
+  const checkNode = (v: unknown, path: string, ids: string[]): void => {
+    if (!isObject(v)) return add(path, "must be an object");
+    checkKeys(v, path, ["type", "params", "retries", "wait", "next", "start", "nodes"]);
+    if (typeof v.type !== "string") add(path + pointer("type"), "must be a string");
+    else if (!registry.get(v.type)) add(path + pointer("type"), `unknown node type '${v.type}'`);
+    if (v.params !== undefined && !isObject(v.params)) add(path + pointer("params"), "must be an object");
+    if (v.retries !== undefined && !(Number.isInteger(v.retries) && (v.retries as number) >= 1)) add(path + pointer("retries"), "must be an integer >= 1");
+    if (v.wait !== undefined && !(typeof v.wait === "number" && v.wait >= 0)) add(path + pointer("wait"), "must be a number >= 0");
+    if (v.next !== undefined) {
+      if (!isObject(v.next)) add(path + pointer("next"), "must be an object mapping actions to node ids");
+      else for (const [action, target] of Object.entries(v.next)) {
+        if (typeof target !== "string") add(path + pointer("next", action), "must be a node id");
+        else if (!ids.includes(target)) add(path + pointer("next", action), `unknown node '${target}'`);
+      }
+    }
+    const nested = v.start !== undefined || v.nodes !== undefined;
+    if (typeof v.type === "string" && registry.isFlow(v.type)) checkFlow({ start: v.start, nodes: v.nodes }, path, undefined);
+    else if (nested) add(path, `'${String(v.type)}' is not a flow type, so it cannot have 'start' or 'nodes'`);
+  };
+  if (isObject(doc)) checkKeys(doc, "", ["type", "params", "start", "nodes"]);
+  checkFlow(doc, "", isObject(doc) ? (doc.type as string | undefined) ?? "Flow" : undefined);
+  return issues;
+}
+
+// A running flow replaces a node's params with its own, so the node's defined params are put back under them on every setParams
+const withDefaults = (node: AnyNode, defaults: Params): void => {
+  const setParams = node.setParams;
+  setParams.call(node, defaults);
+  node.setParams = function (this: AnyNode, params: Params): void { setParams.call(this, { ...defaults, ...params }); };
+};
+
+// Ids from the document, so serializeFlow can write a loaded flow back with the same node ids
+const definedIds = new WeakMap<AnyNode, string>();
+
+export function loadFlow<F extends Flow<any> = Flow>(doc: unknown, registry: NodeRegistry): F {
+  const issues = checkFlowDefinition(doc, registry);
+  if (issues.length) throw new FlowDefinitionError(issues);
+  const build = (flow: Flow<any>, def: { start: string; nodes: Record<string, NodeDefinition> }): void => {
+    const nodes = new Map<string, AnyNode>();
+    for (const [id, n] of Object.entries(def.nodes)) {
+      const cls = registry.get(n.type)!, node = registry.isFlow(n.type) ? new cls() : new cls(n.retries ?? 1, n.wait ?? 0);
+      if (n.params) withDefaults(node, n.params);
+      if (node instanceof Flow) build(node, n as Required<Pick<NodeDefinition, "start" | "nodes">>);
+      definedIds.set(node, id); nodes.set(id, node);
+    }
+    for (const [id, n] of Object.entries(def.nodes)) for (const [action, target] of Object.entries(n.next ?? {})) nodes.get(id)!.next(nodes.get(target)!, action);
+    flow.start(nodes.get(def.start)!);
+  };
+  const def = doc as FlowDefinition, flow = new (registry.get(def.type ?? "Flow")!)() as F;
+  if (def.params) flow.setParams(def.params);
+  build(flow, def);
+  return flow;
+}
+
+// Inverse of loadFlow; node ids come from the loaded document, otherwise from the node type (`decideAction`, `decideAction2`, ...)
+export function serializeFlow(flow: Flow<any>, registry: NodeRegistry): FlowDefinition {
+  const typeOf = (node: AnyNode): string => {
+    const type = registry.typeOf(node);
+    if (!type) throw new FlowError(`${node.constructor.name} is not registered; register it before serializing`);
+    return type;
+  };
+  const describe = (f: Flow<any>): { start: string; nodes: Record<string, NodeDefinition> } => {
+    const ids = new Map<AnyNode, string>(), used = new Set<string>(), order: AnyNode[] = f.startNode ? [f.startNode] : [];
+    for (let i = 0; i < order.length; i++) for (const n of Object.values(order[i].successors)) if (!order.includes(n)) order.push(n);
+    for (const node of order) {
+      const base = definedIds.get(node) ?? typeOf(node).replace(/^./, c => c.toLowerCase());
+      let id = base;
+      for (let k = 2; used.has(id); k++) id = `${base}${k}`;
+      used.add(id); ids.set(node, id);
+    }
+    const nodes: Record<string, NodeDefinition> = {};
+    for (const node of order) {
+      const def: NodeDefinition = { type: typeOf(node) };
+      if (Object.keys(node.params).length) def.params = node.params;
+      if (node instanceof Node && node.maxRetries !== 1) def.retries = node.maxRetries;
+      if (node instanceof Node && node.wait !== 0) def.wait = node.wait;
+      if (Object.keys(node.successors).length) def.next = Object.fromEntries(Object.entries(node.successors).map(([a, n]) => [a, ids.get(n)!]));
+      if (node instanceof Flow) Object.assign(def, describe(node));
+      nodes[ids.get(node)!] = def;
+    }
+    return { start: f.startNode ? ids.get(f.startNode)! : "", nodes };
+  };
+  const def: FlowDefinition = { type: typeOf(flow), ...describe(flow) };
+  if (Object.keys(flow.params).length) def.params = flow.params;
+  return def;
+}
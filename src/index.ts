@@ -1,151 +1,617 @@
 // PocketFlow TypeScript - Minimalist LLM Framework
-const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
-const deepClone = <T extends BaseNode>(obj: T | null): T | null => obj ? Object.assign(Object.create(Object.getPrototypeOf(obj)), obj) : null;
+import { AsyncLocalStorage } from 'async_hooks';
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError(signal));
+  const onAbort = (): void => { clearTimeout(timer); reject(abortError(signal!)); };
+  const timer = setTimeout(() => { signal?.removeEventListener("abort", onAbort); resolve(); }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+const sleepSync = (ms: number): void => { Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms); };
+// Maps `items` through `fn` with at most `limit` calls in flight, stopping at the first failure; results come back in input order, or in completion order unless `ordered`
+const pool = async <T, R>(items: T[], limit: number, ordered: boolean, fn: (item: T, i: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = []; let next = 0, failed = false;
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const i = next++;
+      try { const r = await fn(items[i], i); if (ordered) results[i] = r; else results.push(r); } catch (e) { failed = true; throw e; }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
+const deepClone = <T extends AnyNode>(obj: T | null): T | null => obj ? Object.assign(Object.create(Object.getPrototypeOf(obj)), obj) : null;
 
 export type SharedStore = Record<string, any>;
 export type Params = Record<string, any>;
-export type Action = string | null | undefined;
+export type Action<A extends string = string> = A | null | undefined;
+export type Phase = "prep" | "exec" | "post";
+
+export class AbortError extends Error {
+  constructor(public reason?: unknown) { super(reason instanceof Error ? `Run aborted: ${reason.message}` : "Run aborted"); this.name = "AbortError"; }
+}
+// Thrown instead of the usual console warnings (overwritten successor, unmatched action, ...) in strict mode
+export class FlowError extends Error {
+  constructor(message: string) { super(message); this.name = "FlowError"; }
+}
+// Process-wide default for nodes and flows whose `strict` is null; prefer `flow.strict = true`, which only affects that flow
+let strictMode = false;
+export const setStrictMode = (on: boolean): void => { strictMode = on; };
+const warn = (node: AnyNode, message: string): void => { if (node.strict ?? strictMode) throw new FlowError(message); console.warn(message); };
+
+export class TimeoutError extends Error {
+  constructor(message: string, public seconds: number) { super(message); this.name = "TimeoutError"; }
+}
+// Loop guards for a flow (`flow.limits`); `maxTime` is in seconds. Without `action` a reached limit throws a FlowLimitError, with it
+// the flow stops and returns that action, so its successors (or the caller) can degrade gracefully
+export interface FlowLimits { maxSteps?: number; maxVisits?: number; maxTime?: number; action?: string; }
+export class FlowLimitError extends FlowError {
+  constructor(message: string, public limit: "maxSteps" | "maxVisits" | "maxTime", public path: string[]) { super(message); this.name = "FlowLimitError"; }
+}
+// Shared-store scopes (`flow.scope`): the flow - or, on a batch flow, each branch - runs on a store of its own holding copies of
+// `inputs`, and only `outputs` are merged back into the parent (into `parent[namespace]` with a namespace). Key lists map { childKey: parentKey }
+export type MergeStrategy = "exclusive" | "replace" | "append" | ((current: any, value: any, key: string) => any);
+export interface ScopeOptions {
+  // All parent keys when omitted
+  inputs?: string[] | Record<string, string>;
+  // Nothing is merged back when omitted
+  outputs?: string[] | Record<string, string>;
+  // One strategy, or one per parent key; "exclusive" (the default) throws a ScopeConflictError when a sibling branch already wrote the
+  // key or the parent changed it while the scope ran, "replace" is last-write-wins, "append" pushes onto an array, a function reduces
+  merge?: MergeStrategy | Record<string, MergeStrategy>;
+  namespace?: string | ((params: Params, index: number) => string);
+}
+export class ScopeConflictError extends FlowError {
+  constructor(message: string, public key: string) { super(message); this.name = "ScopeConflictError"; }
+}
+const abortError = (signal: AbortSignal): Error => signal.reason instanceof TimeoutError ? signal.reason : new AbortError(signal.reason);
+const throwIfAborted = (signal?: AbortSignal): void => { if (signal?.aborted) throw abortError(signal); };
+// Settles like `fn`, or rejects with a TimeoutError after `seconds` even if `fn` hangs; the signal handed to `fn` aborts at the deadline
+// The signal of a running exec phase or attempt, per async context rather than on the node: items of an AsyncParallelBatchNode run
+// concurrently on one node instance, each with its own attempt signal
+const execSignal = new AsyncLocalStorage<{ node: AnyNode; signal: AbortSignal | undefined }>();
+const withTimeout = async <T>(seconds: number, what: string, parent: AbortSignal | undefined, fn: (signal?: AbortSignal) => Promise<T>): Promise<T> => {
+  if (!(seconds > 0)) return fn(parent);
+  const ctrl = new AbortController(), error = new TimeoutError(`${what} timed out after ${seconds}s`, seconds);
+  let timer: ReturnType<typeof setTimeout> | undefined, onAbort = (): void => {};
+  const deadline = new Promise<never>((_, reject) => {
+    onAbort = () => { ctrl.abort(parent!.reason); reject(abortError(parent!)); };
+    timer = setTimeout(() => { ctrl.abort(error); reject(error); }, seconds * 1000);
+    if (parent?.aborted) onAbort(); else parent?.addEventListener("abort", onAbort, { once: true });
+  });
+  try { return await Promise.race([fn(ctrl.signal), deadline]); }
+  finally { clearTimeout(timer); parent?.removeEventListener("abort", onAbort); }
+};
+
+// Lifecycle hooks: attach with `flow.use(hooks)`; flows hand them down to every node they run, nested flows included
+export interface NodeEvent { node: AnyNode; runId: number; parentRunId: number | null; shared: SharedStore; }
+export interface NodeEndEvent extends NodeEvent { action: Action; durationMs: number; error?: unknown; }
+export interface PhaseEvent extends NodeEvent { phase: Phase; }
+// `items`: the number of items on the prep phase of batch nodes and flows
+export interface PhaseEndEvent extends PhaseEvent { durationMs: number; error?: unknown; attempt?: number; items?: number; }
+export interface RetryEvent extends NodeEvent { attempt: number; error: unknown; delayMs: number; }
+export interface FallbackEvent extends NodeEvent { attempt: number; error: unknown; }
+export interface TransitionEvent extends NodeEvent { action: Action; to: AnyNode | null; }
+// `attempt` restarts the stream: a retried AsyncStreamNode yields its chunks again from index 0
+export interface ChunkEvent extends NodeEvent { chunk: unknown; index: number; attempt: number; }
+// One item of a batch node or one branch of a batch flow: `node` is the batch node or flow, `runId` the item's own run id and
+// `parentRunId` the batch's; the nodes a batch-flow branch runs have the item's run id as their `parentRunId`
+export interface ItemEvent extends NodeEvent { index: number; }
+export interface ItemEndEvent extends ItemEvent { durationMs: number; error?: unknown; }
+export interface TokenUsage { promptTokens: number; completionTokens: number; totalTokens: number; }
+// Sent by `node.reportUsage()`; nothing in the core reports usage on its own
+export interface UsageEvent extends NodeEvent { usage: TokenUsage; model: string | null; }
+export interface FlowHooks {
+  onFlowStart?(e: NodeEvent): void;
+  onFlowEnd?(e: NodeEndEvent): void;
+  onNodeStart?(e: NodeEvent): void;
+  onNodeEnd?(e: NodeEndEvent): void;
+  onPhaseStart?(e: PhaseEvent): void;
+  onPhaseEnd?(e: PhaseEndEvent): void;
+  onRetry?(e: RetryEvent): void;
+  onFallback?(e: FallbackEvent): void;
+  onTransition?(e: TransitionEvent): void;
+  onChunk?(e: ChunkEvent): void;
+  onItemStart?(e: ItemEvent): void;
+  onItemEnd?(e: ItemEndEvent): void;
+  onUsage?(e: UsageEvent): void;
+}
+// What `AsyncFlow.stream()` yields: hook events tagged by type, then one final "done" event with the flow's action
+export type FlowEvent =
+  | ({ type: "nodeStart" } & NodeEvent) | ({ type: "chunk" } & ChunkEvent) | ({ type: "nodeEnd" } & NodeEndEvent)
+  | ({ type: "transition" } & TransitionEvent) | { type: "done"; action: Action };
+// Checkpoints: one frame per active flow level (outermost first) pointing at the node to run next
+export interface CheckpointFrame { node: number; name: string; params: Params; batch?: number; done?: number[]; }
+export interface Checkpoint { id: string; shared: SharedStore; frames: CheckpointFrame[]; savedAt: number; }
+export interface CheckpointStore {
+  save(checkpoint: Checkpoint): Promise<void>;
+  load(id: string): Promise<Checkpoint | null>;
+  delete(id: string): Promise<void>;
+}
+// `timeout` is in seconds, like `wait`
+export interface RunOptions { checkpoint?: { store: CheckpointStore; id: string }; signal?: AbortSignal; timeout?: number; }
+interface CheckpointRun { store: CheckpointStore; id: string; frames: CheckpointFrame[]; resume: CheckpointFrame[]; }
+// Per-run state that flows hand down to the nodes they run
+export interface RunContext { checkpoint?: CheckpointRun; signal?: AbortSignal; }
+type HookPayload<K extends keyof FlowHooks> = Omit<Parameters<NonNullable<FlowHooks[K]>>[0], keyof NodeEvent>;
+
+// Retries: `wait` grows by `backoff` per attempt up to `maxWait` (all in seconds); `jitter` (0-1) randomly shortens each wait by up to that fraction
+export interface RetryOptions {
+  maxAttempts?: number; wait?: number; backoff?: number; maxWait?: number; jitter?: number;
+  retryIf?: (error: unknown, attempt: number) => boolean; random?: () => number;
+}
+// Reads a server's back-off hint from an error: `retryAfter` (seconds) or a `retry-after(-ms)` header
+export const retryAfterHint = (error: unknown): number | null => {
+  const e = error as { retryAfter?: unknown; headers?: any } | null;
+  if (typeof e?.retryAfter === "number") return e.retryAfter;
+  const get = (k: string): string | null | undefined => typeof e?.headers?.get === "function" ? e.headers.get(k) : e?.headers?.[k];
+  const ms = get("retry-after-ms"), raw = get("retry-after");
+  if (ms != null && !isNaN(Number(ms))) return Number(ms) / 1000;
+  if (raw == null) return null;
+  const date = Date.parse(raw);
+  return !isNaN(Number(raw)) ? Number(raw) : !isNaN(date) ? Math.max(0, (date - Date.now()) / 1000) : null;
+};
+export class RetryPolicy {
+  constructor(public opts: RetryOptions = {}) {}
+  static fixed(maxAttempts: number, wait: number = 0): RetryPolicy { return new RetryPolicy({ maxAttempts, wait }); }
+  static exponential(opts: RetryOptions = {}): RetryPolicy { return new RetryPolicy({ backoff: 2, jitter: 0.5, ...opts }); }
+  get maxAttempts(): number { return this.opts.maxAttempts ?? 1; }
+  // Seconds to wait before retrying after failed attempt number `attempt` (1-based), or null to give up; a server's retry-after hint
+  // is waited out in full, even past `maxWait`
+  delay(attempt: number, error: unknown): number | null {
+    const { wait = 0, backoff = 1, maxWait = Infinity, jitter = 0, retryIf, random = Math.random } = this.opts;
+    if (attempt >= this.maxAttempts || (retryIf && !retryIf(error, attempt))) return null;
+    const base = Math.min(wait * backoff ** (attempt - 1), maxWait) * (1 - jitter * random());
+    return Math.max(base, retryAfterHint(error) ?? 0);
+  }
+}
+
+// Exec result memoization, opt-in per node with `node.cache = ...` (see src/cache.ts); `key` returns null to bypass the cache for one call.
+// Only successful exec results are stored: fallback results and errors never are
+export interface ExecCache {
+  key(node: AnyNode, input: unknown): string | null;
+  get(key: string): { value: unknown } | undefined;
+  set(key: string, value: unknown): void;
+}
+
+let lastRunId = 0;
+const nextRunId = (): number => ++lastRunId;
+const emit = <K extends keyof FlowHooks>(node: AnyNode, name: K, shared: SharedStore, payload: HookPayload<K>): void => {
+  if (!node.hooks.length) return;
+  const e = { node, runId: node.runId, parentRunId: node.parentRunId, shared, ...payload };
+  for (const h of node.hooks) (h[name] as ((e: any) => void) | undefined)?.call(h, e);
+};
+const saveCheckpoint = (run: CheckpointRun, shared: SharedStore, frames: CheckpointFrame[]): Promise<void> =>
+  run.store.save({ id: run.id, shared: JSON.parse(JSON.stringify(shared)), frames: JSON.parse(JSON.stringify(frames)), savedAt: Date.now() });
+const graphNodes = (start: AnyNode | null): AnyNode[] => {
+  const seen: AnyNode[] = start ? [start] : [];
+  for (let i = 0; i < seen.length; i++) for (const n of Object.values(seen[i].successors)) if (!seen.includes(n)) seen.push(n);
+  return seen;
+};
+// Counts one pass through a flow's graph; `check` runs before each node and returns the limit action, or null to go on
+const loopGuard = (flow: AnyNode, limits: FlowLimits): ((next: AnyNode) => string | null) => {
+  const started = Date.now(), visits = new Map<AnyNode, number>(), path: string[] = [];
+  let steps = 0;
+  return next => {
+    const { maxSteps = Infinity, maxVisits = Infinity, maxTime = Infinity } = limits, seconds = (Date.now() - started) / 1000;
+    const [limit, why]: [FlowLimitError["limit"], string] | [null, null] = steps >= maxSteps ? ["maxSteps", `${maxSteps} steps`]
+      : (visits.get(next) ?? 0) >= maxVisits ? ["maxVisits", `${maxVisits} visits to ${next.constructor.name}`]
+      : seconds >= maxTime ? ["maxTime", `${maxTime}s (${steps} steps)`] : [null, null];
+    if (limit) {
+      if (limits.action !== undefined) return limits.action;
+      throw new FlowLimitError(`${flow.constructor.name} stopped at ${limit}: ${why}; recent path: ${path.join(" -> ")}`, limit, [...path]);
+    }
+    steps++; visits.set(next, (visits.get(next) ?? 0) + 1); path.push(next.constructor.name);
+    if (path.length > 10) path.shift();
+    return null;
+  };
+};
+// Arrays and plain objects are copied all the way down; anything else (class instances, functions, ...) is shared by reference
+const copyPlain = (v: any): any => Array.isArray(v) ? v.map(copyPlain)
+  : v && typeof v === "object" && [Object.prototype, null].includes(Object.getPrototypeOf(v)) ? Object.fromEntries(Object.entries(v).map(([k, x]) => [k, copyPlain(x)])) : v;
+const keyPairs = (keys: string[] | Record<string, string>): [string, string][] => Array.isArray(keys) ? keys.map(k => [k, k]) : Object.entries(keys);
+// Builds the child store of a scope and the function merging its outputs back; `written` collects merged keys across sibling branches
+const openScope = (flow: Flow<any>, parent: SharedStore, params: Params, index: number, written: Set<string>): [SharedStore, () => void] => {
+  const scope = flow.scope!, ns = typeof scope.namespace === "function" ? scope.namespace(params, index) : scope.namespace;
+  if (flow.ctx.checkpoint) throw new FlowError(`${flow.constructor.name}: a checkpointed run cannot enter a scoped flow, as the checkpoint saves only the outer store; under a checkpoint only an AsyncParallelBatchFlow takes a scope (flows nested in its branches may have one too), other nested flows must be unscoped`);
+  const child = Object.fromEntries((scope.inputs ? keyPairs(scope.inputs).map(([c, p]) => [c, parent[p]]) : Object.entries(parent)).map(([c, v]) => [c, copyPlain(v)]));
+  const target = (): SharedStore => ns === undefined ? parent : (parent[ns] ??= {}), before = { ...(ns === undefined ? parent : parent[ns]) };
+  return [child, () => {
+    const t = target();
+    for (const [c, p] of scope.outputs ? keyPairs(scope.outputs) : []) {
+      if (!(c in child)) continue;
+      const strategy = typeof scope.merge === "object" ? scope.merge[p] ?? "exclusive" : scope.merge ?? "exclusive", key = ns === undefined ? p : `${ns}.${p}`;
+      if (strategy === "exclusive" && (written.has(key) || t[p] !== before[p])) {
+        throw new ScopeConflictError(`${flow.constructor.name}: conflicting writes to '${key}'; set scope.merge to "replace", "append" or a reducer`, key);
+      }
+      t[p] = typeof strategy === "function" ? strategy(t[p], child[c], p) : strategy === "append" ? [...(t[p] ?? []), child[c]] : child[c];
+      written.add(key);
+    }
+  }];
+};
+const batchItems = (node: AnyNode, phase: Phase, prepRes: unknown): { items?: number } =>
+  phase === "prep" && Array.isArray(prepRes) && [BatchNode, AsyncBatchNode, AsyncParallelBatchNode, BatchFlow, AsyncBatchFlow, AsyncParallelBatchFlow].some(c => node instanceof c)
+    ? { items: prepRes.length } : {};
+// Runs one batch item between onItemStart and onItemEnd; `fn` gets the item's run id, and may return a promise
+const itemSpan = <T>(node: AnyNode, shared: SharedStore, index: number, fn: (runId: number) => T): T => {
+  const runId = nextRunId(), start = Date.now(), e = { node, runId, parentRunId: node.runId, shared, index };
+  const end = (error?: unknown): void => { for (const h of node.hooks) h.onItemEnd?.({ ...e, durationMs: Date.now() - start, ...(error === undefined ? {} : { error }) }); };
+  for (const h of node.hooks) h.onItemStart?.(e);
+  try {
+    const r = fn(runId);
+    if (r instanceof Promise) return r.then(v => { end(); return v; }, error => { end(error); throw error; }) as T;
+    end(); return r;
+  } catch (error) { end(error); throw error; }
+};
+const span = (node: AnyNode, shared: SharedStore, kind: "Flow" | "Node", fn: () => Action): Action => {
+  const start = Date.now(); emit(node, `on${kind}Start`, shared, {});
+  try { const action = fn(); emit(node, `on${kind}End`, shared, { action, durationMs: Date.now() - start }); return action; }
+  catch (error) { emit(node, `on${kind}End`, shared, { action: undefined, durationMs: Date.now() - start, error }); throw error; }
+};
+const spanAsync = async (node: AnyNode, shared: SharedStore, kind: "Flow" | "Node", fn: () => Promise<Action>): Promise<Action> => {
+  const start = Date.now(); emit(node, `on${kind}Start`, shared, {});
+  try { const action = await fn(); emit(node, `on${kind}End`, shared, { action, durationMs: Date.now() - start }); return action; }
+  catch (error) { emit(node, `on${kind}End`, shared, { action: undefined, durationMs: Date.now() - start, error }); throw error; }
+};
+
+// Type parameters: shared store, prep result, exec result (as seen by post), actions post may return, and the input/output of a single
+// exec call - which differ from the prep/exec results only for batch nodes, where exec runs once per item
+export type AnyNode = BaseNode<any, any, any, any, any, any>;
+export type SharedOf<N> = N extends BaseNode<infer S, any, any, any, any, any> ? S : never;
+export type ActionOf<N> = N extends BaseNode<any, any, any, infer A, any, any> ? A : never;
 
-export abstract class BaseNode {
+export abstract class BaseNode<S extends SharedStore = SharedStore, P = any, E = any, A extends string = string, XI = P, XO = E> {
   public params: Params = {};
-  public successors: Record<string, BaseNode> = {};
+  public successors: Record<string, AnyNode> = {};
+  public hooks: FlowHooks[] = [];
+  public runId: number = 0;
+  public parentRunId: number | null = null;
+  public ctx: RunContext = {};
+  // Throw a FlowError instead of warning; null follows the flow running the node, then `setStrictMode`
+  public strict: boolean | null = null;
 
+  get signal(): AbortSignal | undefined { const s = execSignal.getStore(); return s?.node === this ? s.signal : this.ctx.signal; }
   setParams(params: Params): void { this.params = params; }
-  next(node: BaseNode, action: string = "default"): BaseNode { 
-    if (action in this.successors) console.warn(`Overwriting successor for action '${action}'`);
+  use(hooks: FlowHooks): this { this.hooks = [...this.hooks, hooks]; return this; }
+  next<T extends BaseNode<S, any, any, any, any, any>>(node: T, action: A | "default" = "default"): T { 
+    if (action in this.successors) warn(this, `Overwriting successor for action '${action}'`);
     this.successors[action] = node; return node; 
   }
-  prep(shared: SharedStore): any { /* Override */ }
-  exec(prepRes: any): any { /* Override */ }
-  post(shared: SharedStore, prepRes: any, execRes: any): Action { return undefined; }
+  prep(shared: S): P { return undefined as P; /* Override */ }
+  exec(prepRes: XI): XO { return undefined as XO; /* Override */ }
+  post(shared: S, prepRes: P, execRes: E): Action<A> { return undefined; }
   protected _exec(prepRes: any): any { return this.exec(prepRes); }
-  protected _run(shared: SharedStore): Action { return this.post(shared, this.prep(shared), this._exec(this.prep(shared))); }
-  run(shared: SharedStore): Action { 
-    if (Object.keys(this.successors).length > 0) console.warn("Node won't run successors. Use Flow.");
+  protected _phase<T>(shared: SharedStore, phase: Phase, fn: () => T): T {
+    const start = Date.now(); emit(this, "onPhaseStart", shared, { phase });
+    try { const r = fn(); emit(this, "onPhaseEnd", shared, { phase, durationMs: Date.now() - start, attempt: this._attempt(phase), ...batchItems(this, phase, r) }); return r; }
+    catch (error) { emit(this, "onPhaseEnd", shared, { phase, durationMs: Date.now() - start, error }); throw error; }
+  }
+  protected async _phaseAsync<T>(shared: SharedStore, phase: Phase, fn: () => Promise<T>): Promise<T> {
+    const start = Date.now(); emit(this, "onPhaseStart", shared, { phase });
+    try { const r = await fn(); emit(this, "onPhaseEnd", shared, { phase, durationMs: Date.now() - start, attempt: this._attempt(phase), ...batchItems(this, phase, r) }); return r; }
+    catch (error) { emit(this, "onPhaseEnd", shared, { phase, durationMs: Date.now() - start, error }); throw error; }
+  }
+  protected _attempt(phase: Phase): number | undefined { return undefined; }
+  protected _run(shared: S): Action<A> {
+    const p = this._phase(shared, "prep", () => this.prep(shared)), e = this._phase(shared, "exec", () => this._exec(p));
+    return this._phase(shared, "post", () => this.post(shared, p, e));
+  }
+  run(shared: S): Action<A> { 
+    if (Object.keys(this.successors).length > 0) warn(this, "Node won't run successors. Use Flow.");
+    this.runId = nextRunId(); this.parentRunId = null;
     return this._run(shared); 
   }
-  connectTo(other: BaseNode): BaseNode { return this.next(other); }
-  onAction(action: string): ConditionalTransition { 
+  connectTo<T extends BaseNode<S, any, any, any, any, any>>(other: T): T { return this.next(other); }
+  onAction(action: A | "default"): ConditionalTransition<S> { 
     if (typeof action !== 'string') throw new TypeError("Action must be a string");
     return new ConditionalTransition(this, action); 
   }
 }
 
-class ConditionalTransition {
-  constructor(public src: BaseNode, public action: string) {}
-  connectTo(tgt: BaseNode): BaseNode { return this.src.next(tgt, this.action); }
+class ConditionalTransition<S extends SharedStore> {
+  constructor(public src: AnyNode, public action: string) {}
+  connectTo<T extends BaseNode<S, any, any, any, any, any>>(tgt: T): T { return this.src.next(tgt, this.action); }
 }
 
-export class Node extends BaseNode {
-  constructor(public maxRetries: number = 1, public wait: number = 0) { super(); }
-  execFallback(prepRes: any, exc: Error): any { throw exc; }
+export class Node<S extends SharedStore = SharedStore, P = any, E = any, A extends string = string, XI = P, XO = E> extends BaseNode<S, P, E, A, XI, XO> {
+  public maxRetries: number;
+  public retryPolicy: RetryPolicy | null = null;
+  public cache: ExecCache | null = null;
+  // `new Node(maxRetries, wait)` is shorthand for `new Node(RetryPolicy.fixed(maxRetries, wait))`
+  constructor(maxRetries: number | RetryPolicy = 1, public wait: number = 0) {
+    super();
+    if (maxRetries instanceof RetryPolicy) { this.retryPolicy = maxRetries; this.maxRetries = maxRetries.maxAttempts; }
+    else this.maxRetries = maxRetries;
+  }
+  protected _retryPolicy(): RetryPolicy { return this.retryPolicy ?? RetryPolicy.fixed(this.maxRetries, this.wait); }
+  execFallback(prepRes: XI, exc: Error): XO { throw exc; }
   protected _exec(prepRes: any): any {
-    for (this.curRetry = 0; this.curRetry < this.maxRetries; this.curRetry++) {
-      try { return this.exec(prepRes); } catch (e) {
-        if (this.curRetry === this.maxRetries - 1) return this.execFallback(prepRes, e as Error);
-        if (this.wait > 0) { const start = Date.now(); while (Date.now() - start < this.wait * 1000); }
+    const policy = this._retryPolicy(), key = this.cache?.key(this, prepRes) ?? null, hit = key === null ? undefined : this.cache!.get(key);
+    if (hit) return hit.value;
+    for (let attempt = 1; ; attempt++) {
+      let r: any;
+      this.curRetry = attempt - 1;
+      try { r = this.exec(prepRes); } catch (e) {
+        const delay = policy.delay(attempt, e);
+        if (delay === null) { this._onFallback(e, attempt); return this.execFallback(prepRes, e as Error); }
+        this._onRetry(e, delay, attempt);
+        if (delay > 0) sleepSync(delay * 1000);
+        continue;
       }
+      if (key !== null) this.cache!.set(key, r);
+      return r;
     }
   }
-  protected _run(shared: SharedStore): Action { return this.post(shared, this.prep(shared), this._exec(this.prep(shared))); }
+  protected _onRetry(error: unknown, delay: number, attempt: number): void { emit(this, "onRetry", this._shared, { attempt, error, delayMs: delay * 1000 }); }
+  protected _onFallback(error: unknown, attempt: number): void { emit(this, "onFallback", this._shared, { attempt, error }); }
+  protected _attempt(phase: Phase): number | undefined { return phase === "exec" ? this.curRetry + 1 : undefined; }
+  // For nodes calling an LLM: hands the token usage of a call to the `onUsage` hooks (metrics, tracing, ...)
+  reportUsage(usage: TokenUsage, model: string | null = null): void { emit(this, "onUsage", this._shared, { usage, model }); }
+  protected _run(shared: S): Action<A> { this._shared = shared; return super._run(shared); }
   public curRetry: number = 0;
+  protected _shared: SharedStore = {};
 }
 
-export class BatchNode extends Node {
-  protected _exec(items: any[]): any[] { return (items || []).map(item => super._exec(item)); }
+export class BatchNode<S extends SharedStore = SharedStore, I = any, R = any, A extends string = string> extends Node<S, I[], R[], A, I, R> {
+  protected _exec(items: any[]): any[] { return (items || []).map((item, i) => itemSpan(this, this._shared, i, () => super._exec(item))); }
 }
 
-export class Flow extends BaseNode {
-  constructor(public startNode: BaseNode | null = null) { super(); }
-  start(start: BaseNode): BaseNode { this.startNode = start; return start; }
-  async runAsync(shared: SharedStore): Promise<any> { 
-    return typeof (this as any)._runAsync === "function" ? (this as any)._runAsync(shared) : Promise.reject(new Error("runAsync not implemented.")); 
+export class Flow<S extends SharedStore = SharedStore> extends BaseNode<S> {
+  constructor(public startNode: BaseNode<S, any, any, any, any, any> | null = null) { super(); }
+  public limits: FlowLimits = {};
+  public scope: ScopeOptions | null = null;
+  start<T extends BaseNode<S, any, any, any, any, any>>(start: T): T { this.startNode = start; return start; }
+  async runAsync(shared: S, opts: RunOptions = {}): Promise<Action> { return this._start(shared, opts, []); }
+  protected async _start(shared: S, opts: RunOptions, resume: CheckpointFrame[]): Promise<Action> {
+    if (typeof (this as any)._runAsync !== "function") throw new Error("runAsync not implemented.");
+    this.runId = nextRunId(); this.parentRunId = null;
+    const action = await withTimeout<Action>(opts.timeout ?? 0, `${this.constructor.name} run`, opts.signal, signal => {
+      this.ctx = { checkpoint: opts.checkpoint && { ...opts.checkpoint, frames: [], resume }, signal };
+      return (this as any)._runAsync(shared);
+    });
+    if (opts.checkpoint) await opts.checkpoint.store.delete(opts.checkpoint.id);
+    return action;
   }
-  getNextNode(curr: BaseNode, action: Action): BaseNode | null {
+  getNextNode(curr: AnyNode, action: Action): AnyNode | null {
     const nxt = curr.successors[action || "default"];
-    if (!nxt && Object.keys(curr.successors).length > 0) console.warn(`Flow ends: '${action}' not found in [${Object.keys(curr.successors).map(k => `'${k}'`).join(', ')}]`);
+    if (!nxt && Object.keys(curr.successors).length > 0) warn(this, `Flow ends: '${action}' not found in [${Object.keys(curr.successors).map(k => `'${k}'`).join(', ')}]`);
     return nxt || null;
   }
-  protected _orch(shared: SharedStore, params: Params = {}): Action {
-    let curr = deepClone(this.startNode), p = { ...this.params, ...params }, lastAction: Action = null;
-    while (curr) { curr.setParams(p); lastAction = (curr as any)._run(shared); curr = deepClone(this.getNextNode(curr, lastAction)); }
+  protected _adopt(node: AnyNode, params: Params, parentRunId: number = this.runId): void {
+    node.setParams(params); node.hooks = [...new Set([...this.hooks, ...node.hooks])]; node.ctx = this.ctx;
+    node.strict ??= this.strict;
+    node.runId = nextRunId(); node.parentRunId = parentRunId;
+  }
+  _transition(curr: AnyNode, action: Action, shared: S): AnyNode | null {
+    const nxt = this.getNextNode(curr, action); emit(curr, "onTransition", shared, { action, to: nxt }); return nxt;
+  }
+  // One orchestration step: runs a fresh copy of `curr` under this flow and returns the copy with its action
+  _step(curr: AnyNode, shared: S, params: Params, parentRunId: number = this.runId): { node: AnyNode; action: Action } {
+    const node = deepClone(curr)!; this._adopt(node, params, parentRunId);
+    return { node, action: span(node, shared, "Node", () => (node as any)._run(shared)) };
+  }
+  // `parentRunId`: the run id of the batch branch the nodes belong to, or the flow's own
+  protected _orch(shared: S, params: Params = {}, parentRunId: number = this.runId): Action {
+    let curr: AnyNode | null = this.startNode, p = { ...this.params, ...params }, lastAction: Action = null;
+    const guard = loopGuard(this, this.limits);
+    while (curr) {
+      throwIfAborted(this.ctx.signal);
+      const limited = guard(curr);
+      if (limited !== null) return limited;
+      const { node, action } = this._step(curr, shared, p, parentRunId);
+      lastAction = action; curr = this._transition(node, action, shared);
+    }
     return lastAction;
   }
-  protected _run(shared: SharedStore): Action { return this.post(shared, this.prep(shared), this._orch(shared)); }
-  post(shared: SharedStore, prepRes: any, execRes: any): Action { return execRes; }
+  protected _run(shared: S): Action {
+    return span(this, shared, "Flow", () => this._scoped(shared, this.params, 0, new Set(), s => {
+      const p = this._phase(s, "prep", () => this.prep(s)), o = this._phase(s, "exec", () => this._orch(s));
+      return this._phase(s, "post", () => this.post(s, p, o));
+    }));
+  }
+  // Runs `fn` on the store `this.scope` opens (on `shared` itself without a scope) and merges the outputs back once it succeeds
+  protected _scoped<T>(shared: S, params: Params, index: number, written: Set<string>, fn: (shared: S) => T): T {
+    if (!this.scope) return fn(shared);
+    const [child, merge] = openScope(this, shared, params, index, written), r = fn(child as S);
+    if (r instanceof Promise) return r.then(v => { merge(); return v; }) as T;
+    merge(); return r;
+  }
+  post(shared: S, prepRes: any, execRes: any): Action { return execRes; }
 }
 
-export class BatchFlow extends Flow {
-  protected _run(shared: SharedStore): Action { 
-    const pr = this.prep(shared) || []; 
-    for (const bp of pr) this._orch(shared, { ...this.params, ...bp }); 
-    return this.post(shared, pr, null); 
+export class BatchFlow<S extends SharedStore = SharedStore> extends Flow<S> {
+  protected _run(shared: S): Action { 
+    return span(this, shared, "Flow", () => {
+      const pr = this._phase(shared, "prep", () => this.prep(shared)) || [], written = new Set<string>(); 
+      this._phase(shared, "exec", () => { pr.forEach((bp: Params, i: number) => { const p = { ...this.params, ...bp }; itemSpan(this, shared, i, id => this._scoped(shared, p, i, written, s => this._orch(s, p, id))); }); });
+      return this._phase(shared, "post", () => this.post(shared, pr, null)); 
+    });
   }
 }
 
-export class AsyncNode extends Node {
-  async prepAsync(shared: SharedStore): Promise<any> { /* Override */ }
-  async execAsync(prepRes: any): Promise<any> { /* Override */ }
-  async execFallbackAsync(prepRes: any, exc: Error): Promise<any> { throw exc; }
-  async postAsync(shared: SharedStore, prepRes: any, execRes: any): Promise<Action> { return undefined; }
+export class AsyncNode<S extends SharedStore = SharedStore, P = any, E = any, A extends string = string, XI = P, XO = E> extends Node<S, P, E, A, XI, XO> {
+  // `timeout` bounds the whole exec phase (all retries and the fallback), `attemptTimeout` each execAsync call; both in seconds, 0 = none
+  constructor(maxRetries: number | RetryPolicy = 1, wait: number = 0, public timeout: number = 0, public attemptTimeout: number = 0) { super(maxRetries, wait); }
+  async prepAsync(shared: S): Promise<P> { return undefined as P; /* Override */ }
+  async execAsync(prepRes: XI): Promise<XO> { return undefined as XO; /* Override */ }
+  async execFallbackAsync(prepRes: XI, exc: Error): Promise<XO> { throw exc; }
+  async postAsync(shared: S, prepRes: P, execRes: E): Promise<Action<A>> { return undefined; }
   protected async _exec(prepRes: any): Promise<any> {
-    for (let i = 0; i < this.maxRetries; i++) {
-      try { return await this.execAsync(prepRes); } catch (e) {
-        if (i === this.maxRetries - 1) return await this.execFallbackAsync(prepRes, e as Error);
-        if (this.wait > 0) await sleep(this.wait * 1000);
+    const signal = this.signal, policy = this._retryPolicy(), key = this.cache?.key(this, prepRes) ?? null, hit = key === null ? undefined : this.cache!.get(key);
+    if (hit) return hit.value;
+    // The attempt number is local: items of an AsyncParallelBatchNode retry concurrently on the same node; `curRetry` only mirrors it
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+      let r: any;
+      this.curRetry = attempt - 1;
+      try { r = await withTimeout(this.attemptTimeout, `${this.constructor.name} attempt ${attempt}`, signal, attemptSignal => execSignal.run({ node: this, signal: attemptSignal }, () => this.execAsync(prepRes))); } catch (e) {
+        throwIfAborted(signal);
+        const delay = policy.delay(attempt, e);
+        if (delay === null) { this._onFallback(e, attempt); return await this.execFallbackAsync(prepRes, e as Error); }
+        this._onRetry(e, delay, attempt);
+        if (delay > 0) await sleep(delay * 1000, signal);
+        continue;
       }
+      if (key !== null) this.cache!.set(key, r);
+      return r;
     }
   }
-  async runAsync(shared: SharedStore): Promise<Action> { 
-    if (Object.keys(this.successors).length > 0) console.warn("Node won't run successors. Use AsyncFlow.");
-    return await this._runAsync(shared); 
+  async runAsync(shared: S, opts: Pick<RunOptions, "signal" | "timeout"> = {}): Promise<Action<A>> { 
+    if (Object.keys(this.successors).length > 0) warn(this, "Node won't run successors. Use AsyncFlow.");
+    this.runId = nextRunId(); this.parentRunId = null;
+    return await withTimeout(opts.timeout ?? 0, `${this.constructor.name} run`, opts.signal, signal => { this.ctx = { signal }; return this._runAsync(shared); }); 
+  }
+  async _runAsync(shared: S): Promise<Action<A>> {
+    this._shared = shared;
+    const p = await this._phaseAsync(shared, "prep", () => this.prepAsync(shared));
+    const e = await this._phaseAsync(shared, "exec", () => withTimeout(this.timeout, this.constructor.name, this.ctx.signal, signal => execSignal.run({ node: this, signal }, () => this._exec(p))));
+    return await this._phaseAsync(shared, "post", () => this.postAsync(shared, p, e));
   }
-  async _runAsync(shared: SharedStore): Promise<Action> { return await this.postAsync(shared, await this.prepAsync(shared), await this._exec(await this.prepAsync(shared))); }
-  protected _run(shared: SharedStore): Action { throw new Error("Use runAsync."); }
+  protected _run(shared: S): Action<A> { throw new Error("Use runAsync."); }
 }
 
-export class AsyncBatchNode extends AsyncNode {
-  protected async _exec(items: any[]): Promise<any[]> { return Promise.all((items || []).map(item => super._exec(item))); }
+// Streaming exec: `execStream` yields chunks as they arrive (each fires `onChunk`), and postAsync receives all of them as an array
+export class AsyncStreamNode<S extends SharedStore = SharedStore, P = any, C = any, A extends string = string> extends AsyncNode<S, P, C[], A, P, C[]> {
+  async *execStream(prepRes: P): AsyncIterable<C> { /* Override */ }
+  async execAsync(prepRes: P): Promise<C[]> {
+    const chunks: C[] = [];
+    for await (const chunk of this.execStream(prepRes)) {
+      throwIfAborted(this.signal);
+      emit(this, "onChunk", this._shared, { chunk, index: chunks.length, attempt: this.curRetry + 1 }); chunks.push(chunk);
+    }
+    return chunks;
+  }
+}
+
+export class AsyncBatchNode<S extends SharedStore = SharedStore, I = any, R = any, A extends string = string> extends AsyncNode<S, I[], R[], A, I, R> {
+  protected async _exec(items: any[]): Promise<any[]> {
+    const results = [];
+    for (const [i, item] of (items || []).entries()) results.push(await itemSpan(this, this._shared, i, () => super._exec(item)));
+    return results;
+  }
 }
 
-export class AsyncParallelBatchNode extends AsyncNode {
-  protected async _exec(items: any[]): Promise<any[]> { return Promise.all(items.map(item => super._exec(item))); }
+export class AsyncParallelBatchNode<S extends SharedStore = SharedStore, I = any, R = any, A extends string = string> extends AsyncNode<S, I[], R[], A, I, R> {
+  public concurrency: number = Infinity;
+  public ordered: boolean = true;
+  protected async _exec(items: any[]): Promise<any[]> { return pool(items || [], this.concurrency, this.ordered, (item, i) => itemSpan(this, this._shared, i, () => super._exec(item))); }
+  // Items retry independently, so the exec phase has no single attempt number
+  protected _attempt(phase: Phase): number | undefined { return undefined; }
 }
 
-export class AsyncFlow extends Flow {
-  async prepAsync(shared: SharedStore): Promise<any> { /* Override */ }
-  async postAsync(shared: SharedStore, prepRes: any, execRes: any): Promise<Action> { return execRes; }
-  protected async _orchAsync(shared: SharedStore, params: Params = {}): Promise<Action> {
-    let curr = deepClone(this.startNode), p = { ...this.params, ...params }, lastAction: Action = null;
-    while (curr) { 
-      curr.setParams(p); 
-      lastAction = curr instanceof AsyncNode ? await curr._runAsync(shared) : (curr as any)._run(shared);
-      curr = deepClone(this.getNextNode(curr, lastAction)); 
+export class AsyncFlow<S extends SharedStore = SharedStore> extends Flow<S> {
+  async prepAsync(shared: S): Promise<any> { /* Override */ }
+  async postAsync(shared: S, prepRes: any, execRes: any): Promise<Action> { return execRes; }
+  // Restores `shared` from the stored checkpoint and continues from where it stopped; runs from the start if there is none
+  async resumeAsync(shared: S, opts: Required<Pick<RunOptions, "checkpoint">> & RunOptions): Promise<Action> {
+    const cp = await opts.checkpoint.store.load(opts.checkpoint.id);
+    if (cp) Object.assign(shared, cp.shared);
+    return this._start(shared, opts, cp ? cp.frames : []);
+  }
+  // Runs the flow and yields its events as they happen; the run doesn't wait for the consumer, and leaving the loop early aborts it
+  async *stream(shared: S, opts: RunOptions = {}): AsyncGenerator<FlowEvent, void> {
+    const queue: FlowEvent[] = [], controller = new AbortController(), onAbort = (): void => controller.abort(opts.signal?.reason);
+    let wake: (() => void) | null = null, finished = false;
+    const push = (e: FlowEvent): void => { queue.push(e); wake?.(); };
+    const hooks: FlowHooks = {
+      onNodeStart: e => push({ type: "nodeStart", ...e }), onChunk: e => push({ type: "chunk", ...e }),
+      onNodeEnd: e => push({ type: "nodeEnd", ...e }), onTransition: e => push({ type: "transition", ...e }),
+    };
+    if (opts.signal?.aborted) onAbort(); else opts.signal?.addEventListener("abort", onAbort, { once: true });
+    this.use(hooks);
+    const run = this.runAsync(shared, { ...opts, signal: controller.signal });
+    run.then(() => {}, () => {}).finally(() => { finished = true; wake?.(); });
+    try {
+      for (;;) {
+        while (queue.length) yield queue.shift()!;
+        if (finished) break;
+        await new Promise<void>(resolve => { wake = resolve; }); wake = null;
+      }
+      yield { type: "done", action: await run };
+    } finally {
+      if (!finished) controller.abort(new Error("Stream closed by consumer"));
+      opts.signal?.removeEventListener("abort", onAbort); this.hooks = this.hooks.filter(h => h !== hooks);
     }
+  }
+  async _stepAsync(curr: AnyNode, shared: S, params: Params, parentRunId: number = this.runId): Promise<{ node: AnyNode; action: Action }> {
+    const node = deepClone(curr)!; this._adopt(node, params, parentRunId);
+    return { node, action: await spanAsync(node, shared, "Node", async () => node instanceof AsyncNode || node instanceof AsyncFlow ? await node._runAsync(shared) : (node as any)._run(shared)) };
+  }
+  protected async _orchAsync(shared: S, params: Params = {}, batch?: number, parentRunId: number = this.runId): Promise<Action> {
+    const run = this.ctx.checkpoint, resume = run?.resume.shift(), nodes = run ? graphNodes(this.startNode) : [];
+    let curr: AnyNode | null = this.startNode, p = { ...this.params, ...params }, lastAction: Action = null;
+    if (resume) {
+      curr = nodes[resume.node]; p = resume.params;
+      if (!curr || curr.constructor.name !== resume.name) throw new Error(`Checkpoint does not match flow: no ${resume.name} at position ${resume.node}`);
+    }
+    const frame: CheckpointFrame = { node: 0, name: "", params: p, ...(batch === undefined ? {} : { batch }) };
+    run?.frames.push(frame);
+    const guard = loopGuard(this, this.limits);
+    try {
+      while (curr) { 
+        throwIfAborted(this.ctx.signal);
+        const limited = guard(curr);
+        if (limited !== null) return limited;
+        frame.node = nodes.indexOf(curr); frame.name = curr.constructor.name;
+        const { node, action } = await this._stepAsync(curr, shared, p, parentRunId);
+        lastAction = action; curr = this._transition(node, action, shared);
+        if (run && curr) { frame.node = nodes.indexOf(curr); frame.name = curr.constructor.name; await saveCheckpoint(run, shared, run.frames); }
+      }
+    } finally { run?.frames.pop(); }
     return lastAction;
   }
-  async _runAsync(shared: SharedStore): Promise<Action> { return await this.postAsync(shared, await this.prepAsync(shared), await this._orchAsync(shared)); }
+  async _runAsync(shared: S): Promise<Action> {
+    return await spanAsync(this, shared, "Flow", () => this._scoped(shared, this.params, 0, new Set(), async s => {
+      const p = await this._phaseAsync(s, "prep", () => this.prepAsync(s)), o = await this._phaseAsync(s, "exec", () => this._orchAsync(s));
+      return await this._phaseAsync(s, "post", () => this.postAsync(s, p, o));
+    }));
+  }
 }
 
-export class AsyncBatchFlow extends AsyncFlow {
-  async _runAsync(shared: SharedStore): Promise<Action> { 
-    const pr = await this.prepAsync(shared) || []; 
-    for (const bp of pr) await this._orchAsync(shared, { ...this.params, ...bp }); 
-    return await this.postAsync(shared, pr, null); 
+export class AsyncBatchFlow<S extends SharedStore = SharedStore> extends AsyncFlow<S> {
+  async _runAsync(shared: S): Promise<Action> { 
+    return await spanAsync(this, shared, "Flow", async () => {
+      const pr = await this._phaseAsync(shared, "prep", () => this.prepAsync(shared)) || [], run = this.ctx.checkpoint, written = new Set<string>(); 
+      await this._phaseAsync(shared, "exec", async () => {
+        for (let i = run?.resume[0]?.batch ?? 0; i < pr.length; i++) {
+          const p = { ...this.params, ...pr[i] };
+          await itemSpan(this, shared, i, id => this._scoped(shared, p, i, written, s => this._orchAsync(s, p, i, id)));
+          const start = this.startNode;
+          if (run && start && i + 1 < pr.length) await saveCheckpoint(run, shared, [...run.frames, { node: 0, name: start.constructor.name, params: { ...this.params, ...pr[i + 1] }, batch: i + 1 }]);
+        }
+      });
+      return await this._phaseAsync(shared, "post", () => this.postAsync(shared, pr, null)); 
+    });
   }
 }
 
-export class AsyncParallelBatchFlow extends AsyncFlow {
-  async _runAsync(shared: SharedStore): Promise<Action> { 
-    const pr = await this.prepAsync(shared) || []; 
-    await Promise.all(pr.map((bp: Params) => this._orchAsync(shared, { ...this.params, ...bp }))); 
-    return await this.postAsync(shared, pr, null); 
+export class AsyncParallelBatchFlow<S extends SharedStore = SharedStore> extends AsyncFlow<S> {
+  public concurrency: number = Infinity;
+  async _runAsync(shared: S): Promise<Action> { 
+    return await spanAsync(this, shared, "Flow", async () => {
+      const ctx = this.ctx, run = ctx.checkpoint;
+      // Unscoped branches write straight into the store, so a checkpoint would save the partial writes of unfinished ones, which
+      // then run again from their first node on resume; scoped branches only write back once they finish
+      if (run && !this.scope) throw new FlowError(`${this.constructor.name}: a checkpointed AsyncParallelBatchFlow needs a scope, so unfinished branches write nothing to the saved store; it is the one flow that takes a scope under a checkpoint`);
+      const pr = await this._phaseAsync(shared, "prep", () => this.prepAsync(shared)) || [], written = new Set<string>();
+      // Branches run concurrently, so progress is checkpointed per finished item rather than per node
+      const done = new Set<number>(run?.resume.shift()?.done), frame = (): CheckpointFrame => ({ node: 0, name: "", params: this.params, done: [...done] });
+      this.ctx = { ...ctx, checkpoint: undefined };
+      try {
+        await this._phaseAsync(shared, "exec", () => pool(pr, this.concurrency, true, async (bp: Params, i: number) => {
+          if (done.has(i)) return;
+          const p = { ...this.params, ...bp };
+          await itemSpan(this, shared, i, id => this._scoped(shared, p, i, written, s => this._orchAsync(s, p, undefined, id))); done.add(i);
+          if (run) await saveCheckpoint(run, shared, [...run.frames, frame()]);
+        }));
+      } finally { this.ctx = ctx; }
+      return await this._phaseAsync(shared, "post", () => this.postAsync(shared, pr, null)); 
+    });
   }
 }
 
-export function chain(first: BaseNode, ...rest: BaseNode[]): BaseNode { 
-  let current = first; for (const next of rest) { current.connectTo(next); current = next; } return first; 
+export function chain<T extends AnyNode>(first: T, ...rest: BaseNode<SharedOf<T>, any, any, any, any, any>[]): T { 
+  let current: AnyNode = first; for (const next of rest) { current.connectTo(next); current = next; } return first; 
 }
-export function branch(node: BaseNode, action: string, target: BaseNode): BaseNode { 
+export function branch<T extends AnyNode>(node: T, action: ActionOf<T> | "default", target: BaseNode<SharedOf<T>, any, any, any, any, any>): T { 
   node.onAction(action).connectTo(target); return node; 
 }
\ No newline at end of file
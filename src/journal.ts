@@ -0,0 +1,142 @@
+// Shared-store journal - a tracked store records every write and delete (nested paths included) with the node and phase that made it,
+// for per-node diffs, audits and rolling a store back to before a node ran
+import { AsyncLocalStorage } from 'async_hooks';
+import { FlowHooks, Phase, PhaseEndEvent, PhaseEvent, SharedStore } from './index';
+
+// `path` is a JSON Pointer into the store ("/context/items/0"); `before` / `after` are copies, absent when the key did not exist
+export interface JournalEntry {
+  seq: number;
+  op: "set" | "delete";
+  path: string;
+  before?: unknown;
+  after?: unknown;
+  // The node (class name and run id) and phase that made the change; null outside any node, e.g. writes before the run
+  node: string | null;
+  runId: number | null;
+  phase: Phase | null;
+  time: number;
+}
+export interface PathChange { path: string; before?: unknown; after?: unknown; }
+// Net effect of one node run: each path once, with its value before the node's first and after its last write
+export interface NodeDiff { node: string | null; runId: number | null; changes: PathChange[]; }
+
+interface Frame { node: string; runId: number; phase: Phase; parent: Frame | null; }
+
+const pointer = (segments: string[]): string => segments.map(s => `/${s.replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+const segmentsOf = (path: string): string[] => path.split("/").slice(1).map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+const isPlain = (v: unknown): v is object => Array.isArray(v) || (!!v && typeof v === "object" && [Object.prototype, null].includes(Object.getPrototypeOf(v)));
+// Arrays and plain objects are copied all the way down, so later in-place changes don't rewrite history
+const copy = (v: any): any => Array.isArray(v) ? v.map(copy) : isPlain(v) ? Object.fromEntries(Object.entries(v).map(([k, x]) => [k, copy(x)])) : v;
+const same = (a: unknown, b: unknown): boolean => Object.is(a, b) || (isPlain(a) && isPlain(b) && JSON.stringify(a) === JSON.stringify(b));
+
+// `const shared = journal.track({ ... }); flow.use(journal); await flow.runAsync(shared)`. Writes are attributed through the phase
+// hooks and async context, so concurrent parallel-batch branches are told apart
+export class StoreJournal implements FlowHooks {
+  public entries: JournalEntry[] = [];
+  private seq = 0;
+  private root: object | null = null;
+  private context = new AsyncLocalStorage<Frame | null>();
+  private frames = new Map<string, Frame>();
+  private active = new Set<Frame>();
+  private raw = new WeakMap<object, object>();
+  private proxies = new WeakMap<object, Map<string, object>>();
+
+  // Returns a proxy to use as the shared store; nested plain objects and arrays read through it are tracked too. One store per journal
+  track<S extends SharedStore>(shared: S): S {
+    if (this.root && this.root !== shared) throw new Error("StoreJournal already tracks another store");
+    this.root = shared; return this.wrap(shared, []) as S;
+  }
+
+  onPhaseStart(e: PhaseEvent): void {
+    const frame: Frame = { node: e.node.constructor.name, runId: e.runId, phase: e.phase, parent: this.current() };
+    this.frames.set(`${e.runId}:${e.phase}`, frame); this.active.add(frame);
+    this.context.enterWith(frame);
+  }
+  onPhaseEnd(e: PhaseEndEvent): void {
+    const frame = this.frames.get(`${e.runId}:${e.phase}`);
+    if (!frame) return;
+    this.frames.delete(`${e.runId}:${e.phase}`); this.active.delete(frame);
+    this.context.enterWith(frame.parent);
+  }
+
+  // Every change at, above or below `path`: who set `/context`, and everything written inside it since
+  history(path: string): JournalEntry[] {
+    return this.entries.filter(e => e.path === path || e.path.startsWith(`${path}/`) || path.startsWith(`${e.path}/`));
+  }
+  diffs(): NodeDiff[] {
+    const byRun = new Map<number | null, NodeDiff>(), first = new Map<NodeDiff, Map<string, JournalEntry>>(), last = new Map<NodeDiff, Map<string, JournalEntry>>();
+    for (const e of this.entries) {
+      let d = byRun.get(e.runId);
+      if (!d) { d = { node: e.node, runId: e.runId, changes: [] }; byRun.set(e.runId, d); first.set(d, new Map()); last.set(d, new Map()); }
+      if (!first.get(d)!.has(e.path)) first.get(d)!.set(e.path, e);
+      last.get(d)!.set(e.path, e);
+    }
+    for (const d of byRun.values()) {
+      for (const [path, f] of first.get(d)!) {
+        const l = last.get(d)!.get(path)!, change: PathChange = { path };
+        if ("before" in f) change.before = f.before;
+        if ("after" in l) change.after = l.after;
+        if (("before" in change) !== ("after" in change) || !same(change.before, change.after)) d.changes.push(change);
+      }
+    }
+    return [...byRun.values()].filter(d => d.changes.length);
+  }
+  // The diff of one node run, by run id, or of the first run of a node class by name
+  diff(node: number | string): NodeDiff | undefined {
+    return this.diffs().find(d => typeof node === "number" ? d.runId === node : d.node === node);
+  }
+
+  // Undoes, newest first, every change from the first one the node made (by run id, or the first run of a class by name) and drops
+  // those entries; returns how many were undone
+  rollback(node: number | string): number {
+    const from = this.entries.findIndex(e => typeof node === "number" ? e.runId === node : e.node === node);
+    if (from < 0) return 0;
+    const undone = this.entries.splice(from).reverse();
+    for (const e of undone) {
+      const segments = segmentsOf(e.path), key = segments.pop()!;
+      let target: any = this.root;
+      for (const s of segments) target = target?.[s];
+      if (!target || typeof target !== "object") continue;
+      if ("before" in e) target[key] = copy(e.before); else delete target[key];
+    }
+    return undone.length;
+  }
+  toJSON(): { entries: JournalEntry[] } { return { entries: this.entries }; }
+
+  private current(): Frame | null {
+    let f = this.context.getStore() ?? null;
+    while (f && !this.active.has(f)) f = f.parent;
+    return f;
+  }
+  private record(op: JournalEntry["op"], path: string[], target: any, key: string, value?: unknown): void {
+    const frame = this.current(), entry: JournalEntry = {
+      seq: ++this.seq, op, path: pointer([...path, key]), node: frame?.node ?? null, runId: frame?.runId ?? null, phase: frame?.phase ?? null, time: Date.now(),
+    };
+    if (key in target) entry.before = copy(target[key]);
+    if (op === "set") entry.after = copy(value);
+    this.entries.push(entry);
+  }
+  private wrap(target: object, path: string[]): object {
+    const cached = this.proxies.get(target)?.get(pointer(path));
+    if (cached) return cached;
+    const proxy = new Proxy(target, {
+      get: (t, key, receiver) => {
+        const v = Reflect.get(t, key, receiver);
+        return typeof key === "string" && isPlain(v) && Object.getOwnPropertyDescriptor(t, key) ? this.wrap(v, [...path, key]) : v;
+      },
+      set: (t: any, key, value) => {
+        const v = this.raw.get(value) ?? value;
+        if (typeof key === "string" && !(key in t && Object.is(t[key], v))) this.record("set", path, t, key, v);
+        return Reflect.set(t, key, v);
+      },
+      deleteProperty: (t, key) => {
+        if (typeof key === "string" && key in t) this.record("delete", path, t, key);
+        return Reflect.deleteProperty(t, key);
+      },
+    });
+    this.raw.set(proxy, target);
+    if (!this.proxies.has(target)) this.proxies.set(target, new Map());
+    this.proxies.get(target)!.set(pointer(path), proxy);
+    return proxy;
+  }
+}
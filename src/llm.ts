@@ -0,0 +1,188 @@
+// Provider-agnostic LLM client - chat messages, tool calls, usage and streaming behind one interface, with an OpenAI-compatible
+// adapter (plain fetch, no SDK) and a scripted fake for tests
+export type Role = "system" | "user" | "assistant" | "tool";
+export interface ToolCall { id: string; name: string; arguments: Record<string, unknown>; }
+// `toolCalls` on assistant messages that requested tools; `toolCallId` on the tool message answering one of them
+export interface ChatMessage { role: Role; content: string; toolCalls?: ToolCall[]; toolCallId?: string; }
+// `parameters` is a JSON Schema for the tool's arguments
+export interface ToolSpec { name: string; description: string; parameters: Record<string, unknown>; }
+// `system` is sent as a leading system message; `timeout` in seconds
+export interface ChatOptions {
+  model?: string; system?: string; temperature?: number; maxTokens?: number; stop?: string[];
+  tools?: ToolSpec[]; signal?: AbortSignal; timeout?: number;
+}
+export interface Usage { promptTokens: number; completionTokens: number; totalTokens: number; }
+export interface ChatResponse { content: string; toolCalls: ToolCall[]; usage: Usage | null; model: string; finishReason: string | null; }
+// Text arrives in pieces; the last chunk carries the assembled response, tool calls and usage included
+export type StreamChunk = { type: "text"; text: string } | { type: "done"; response: ChatResponse };
+
+export interface LLMClient {
+  chat(messages: ChatMessage[], opts?: ChatOptions): Promise<ChatResponse>;
+  stream(messages: ChatMessage[], opts?: ChatOptions): AsyncIterable<StreamChunk>;
+}
+
+export class LLMError extends Error {
+  constructor(message: string, public status: number | null = null, public cause?: unknown) { super(message); this.name = "LLMError"; }
+}
+// 401/403: a bad or missing API key
+export class LLMAuthError extends LLMError { constructor(message: string, status: number) { super(message, status); this.name = "LLMAuthError"; } }
+// 400/404/422: the request itself is wrong (unknown model, context too long, ...)
+export class LLMRequestError extends LLMError { constructor(message: string, status: number) { super(message, status); this.name = "LLMRequestError"; } }
+// 429; `retryAfter` (seconds) is read by RetryPolicy, so retries wait as long as the server asks
+export class LLMRateLimitError extends LLMError {
+  constructor(message: string, public retryAfter: number | null) { super(message, 429); this.name = "LLMRateLimitError"; }
+}
+// 5xx
+export class LLMServerError extends LLMError { constructor(message: string, status: number) { super(message, status); this.name = "LLMServerError"; } }
+// The server could not be reached or did not answer in time
+export class LLMConnectionError extends LLMError { constructor(message: string, cause?: unknown) { super(message, null, cause); this.name = "LLMConnectionError"; } }
+// The server answered with something that is not a valid completion
+export class LLMResponseError extends LLMError { constructor(message: string) { super(message); this.name = "LLMResponseError"; } }
+
+// For `new RetryPolicy({ retryIf: isRetryableLLMError })`: retries rate limits, server errors and connection problems only
+export const isRetryableLLMError = (error: unknown): boolean =>
+  error instanceof LLMRateLimitError || error instanceof LLMServerError || error instanceof LLMConnectionError;
+
+const withSystem = (messages: ChatMessage[], system?: string): ChatMessage[] => system ? [{ role: "system", content: system }, ...messages] : messages;
+
+export interface OpenAICompatibleOptions {
+  baseURL?: string; apiKey?: string; model: string; headers?: Record<string, string>;
+  // Defaults for every call; per-call ChatOptions win
+  defaults?: Omit<ChatOptions, "signal" | "model" | "tools" | "system">;
+  fetch?: typeof fetch;
+}
+
+// Talks to `/chat/completions` of OpenAI or any server speaking its API (vLLM, Ollama, LM Studio, llama.cpp, ...)
+export class OpenAICompatibleClient implements LLMClient {
+  public baseURL: string;
+  constructor(public opts: OpenAICompatibleOptions) { this.baseURL = (opts.baseURL ?? "https://api.openai.com/v1").replace(/\/+$/, ""); }
+
+  async chat(messages: ChatMessage[], opts: ChatOptions = {}): Promise<ChatResponse> {
+    const { res, done } = await this.request(messages, opts, false);
+    let data: any;
+    try { data = await res.json(); } finally { done(); }
+    const choice = data?.choices?.[0];
+    if (!choice?.message) throw new LLMResponseError(`Response has no choices: ${JSON.stringify(data).slice(0, 200)}`);
+    return {
+      content: choice.message.content ?? "", model: data.model ?? opts.model ?? this.opts.model, finishReason: choice.finish_reason ?? null,
+      toolCalls: (choice.message.tool_calls ?? []).map((c: any) => ({ id: c.id, name: c.function.name, arguments: parseArguments(c.function.arguments) })),
+      usage: toUsage(data.usage),
+    };
+  }
+
+  async *stream(messages: ChatMessage[], opts: ChatOptions = {}): AsyncIterable<StreamChunk> {
+    const { res, done } = await this.request(messages, opts, true), calls: { id: string; name: string; args: string }[] = [];
+    let content = "", model = opts.model ?? this.opts.model, finishReason: string | null = null, usage: Usage | null = null, buffer = "";
+    const decoder = new TextDecoder();
+    const handle = (line: string): string | null => {
+      if (!line.startsWith("data:")) return null;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return null;
+      let data: any;
+      try { data = JSON.parse(payload); } catch { throw new LLMResponseError(`Stream event is not valid JSON: ${payload.slice(0, 200)}`); }
+      const choice = data.choices?.[0];
+      model = data.model ?? model; usage = toUsage(data.usage) ?? usage;
+      if (!choice) return null;
+      finishReason = choice.finish_reason ?? finishReason;
+      for (const d of choice.delta?.tool_calls ?? []) {
+        const call = calls[d.index ?? 0] ??= { id: "", name: "", args: "" };
+        call.id ||= d.id ?? ""; call.name += d.function?.name ?? ""; call.args += d.function?.arguments ?? "";
+      }
+      return choice.delta?.content || null;
+    };
+    try {
+      for await (const bytes of res.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split("\n"); buffer = lines.pop()!;
+        for (const line of lines) { const text = handle(line); if (text) { content += text; yield { type: "text", text }; } }
+      }
+    } catch (e) {
+      if (e instanceof LLMError || opts.signal?.aborted) throw e;
+      throw new LLMConnectionError(`Stream from ${this.baseURL} broke off: ${(e as Error).message}`, e);
+    } finally { done(); }
+    const text = handle(buffer);
+    if (text) { content += text; yield { type: "text", text }; }
+    yield { type: "done", response: { content, model, finishReason, usage, toolCalls: calls.map(c => ({ id: c.id, name: c.name, arguments: parseArguments(c.args) })) } };
+  }
+
+  // `done` unlinks the request from the caller's signal; call it once the body is read, as the signal may outlive many requests
+  private async request(messages: ChatMessage[], opts: ChatOptions, stream: boolean): Promise<{ res: Response; done: () => void }> {
+    const o = { ...this.opts.defaults, ...opts }, body: Record<string, unknown> = {
+      model: o.model ?? this.opts.model, messages: withSystem(messages, o.system).map(toWire), stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(o.temperature !== undefined ? { temperature: o.temperature } : {}), ...(o.maxTokens !== undefined ? { max_tokens: o.maxTokens } : {}),
+      ...(o.stop ? { stop: o.stop } : {}),
+      ...(o.tools?.length ? { tools: o.tools.map(t => ({ type: "function", function: { name: t.name, description: t.description, parameters: t.parameters } })) } : {}),
+    };
+    const signals = [o.signal, o.timeout ? AbortSignal.timeout(o.timeout * 1000) : undefined].filter((s): s is AbortSignal => !!s);
+    const controller = new AbortController(), onAbort = (e: Event): void => controller.abort((e.target as AbortSignal).reason);
+    for (const s of signals) { if (s.aborted) controller.abort(s.reason); else s.addEventListener("abort", onAbort, { once: true }); }
+    const done = (): void => { for (const s of signals) s.removeEventListener("abort", onAbort); };
+    let res: Response;
+    try {
+      res = await (this.opts.fetch ?? fetch)(`${this.baseURL}/chat/completions`, {
+        method: "POST", body: JSON.stringify(body), signal: controller.signal,
+        headers: { "content-type": "application/json", ...(this.opts.apiKey ? { authorization: `Bearer ${this.opts.apiKey}` } : {}), ...this.opts.headers },
+      });
+    } catch (e) {
+      done();
+      if (opts.signal?.aborted) throw e;
+      throw new LLMConnectionError(`Could not reach ${this.baseURL}: ${(e as Error).message}`, e);
+    }
+    if (!res.ok) { done(); throw await errorFor(res); }
+    return { res, done };
+  }
+}
+
+const toWire = (m: ChatMessage): Record<string, unknown> => ({
+  role: m.role, content: m.content,
+  ...(m.toolCalls?.length ? { tool_calls: m.toolCalls.map(c => ({ id: c.id, type: "function", function: { name: c.name, arguments: JSON.stringify(c.arguments) } })) } : {}),
+  ...(m.toolCallId ? { tool_call_id: m.toolCallId } : {}),
+});
+const toUsage = (u: any): Usage | null => u ? { promptTokens: u.prompt_tokens ?? 0, completionTokens: u.completion_tokens ?? 0, totalTokens: u.total_tokens ?? 0 } : null;
+const parseArguments = (raw: unknown): Record<string, unknown> => {
+  if (typeof raw !== "string") return (raw ?? {}) as Record<string, unknown>;
+  try { return raw.trim() ? JSON.parse(raw) : {}; } catch { throw new LLMResponseError(`Tool call arguments are not valid JSON: ${raw.slice(0, 200)}`); }
+};
+const errorFor = async (res: Response): Promise<LLMError> => {
+  const text = await res.text().catch(() => "");
+  let detail = text;
+  try { detail = JSON.parse(text).error?.message ?? text; } catch { /* not JSON */ }
+  const message = `LLM request failed with ${res.status}: ${String(detail).slice(0, 500)}`;
+  if (res.status === 401 || res.status === 403) return new LLMAuthError(message, res.status);
+  if (res.status === 429) {
+    const header = res.headers.get("retry-after");
+    return new LLMRateLimitError(message, header !== null && !isNaN(Number(header)) ? Number(header) : null);
+  }
+  if (res.status >= 500) return new LLMServerError(message, res.status);
+  return new LLMRequestError(message, res.status);
+};
+
+export type FakeReply = string | Partial<ChatResponse> | Error | ((messages: ChatMessage[], opts: ChatOptions) => string | Partial<ChatResponse>);
+
+// Answers with scripted replies in order (an Error reply is thrown) and keeps every request for assertions; streams split text by word
+export class FakeLLMClient implements LLMClient {
+  public requests: { messages: ChatMessage[]; opts: ChatOptions }[] = [];
+  constructor(public replies: FakeReply[] = [], public model: string = "fake") {}
+
+  async chat(messages: ChatMessage[], opts: ChatOptions = {}): Promise<ChatResponse> {
+    this.requests.push({ messages: withSystem(messages, opts.system), opts });
+    const reply = this.replies.shift();
+    if (reply === undefined) throw new LLMError(`FakeLLMClient has no reply left for request ${this.requests.length}`);
+    if (reply instanceof Error) throw reply;
+    const r = typeof reply === "function" ? reply(messages, opts) : reply, res = typeof r === "string" ? { content: r } : r;
+    const content = res.content ?? "", completionTokens = content.split(/\s+/).filter(Boolean).length;
+    const promptTokens = messages.reduce((n, m) => n + m.content.split(/\s+/).filter(Boolean).length, 0);
+    return {
+      content, toolCalls: res.toolCalls ?? [], model: res.model ?? opts.model ?? this.model,
+      finishReason: res.finishReason ?? (res.toolCalls?.length ? "tool_calls" : "stop"),
+      usage: res.usage ?? { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  async *stream(messages: ChatMessage[], opts: ChatOptions = {}): AsyncIterable<StreamChunk> {
+    const response = await this.chat(messages, opts);
+    for (const text of response.content.match(/\S+\s*|\s+/g) ?? []) yield { type: "text", text };
+    yield { type: "done", response };
+  }
+}
@@ -0,0 +1,125 @@
+// Run metrics - counters and histograms per node class and action, collected from lifecycle hooks and rendered as Prometheus text
+// or a JSON snapshot
+import { FallbackEvent, FlowHooks, NodeEndEvent, PhaseEndEvent, RetryEvent, UsageEvent } from './index';
+
+export type Labels = Record<string, string>;
+export interface CounterSample { labels: Labels; value: number; }
+// `buckets` maps each upper bound ("+Inf" last) to the cumulative count of observations up to it
+export interface HistogramSample { labels: Labels; count: number; sum: number; buckets: Record<string, number>; }
+export interface MetricsSnapshot {
+  counters: Record<string, { help: string; samples: CounterSample[] }>;
+  histograms: Record<string, { help: string; samples: HistogramSample[] }>;
+}
+
+// `prefix` starts every metric name; `labels` are added to every sample (service, environment, ...); bucket bounds in seconds / items
+export interface MetricsOptions { prefix?: string; labels?: Labels; durationBuckets?: number[]; batchBuckets?: number[]; }
+
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+const BATCH_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000];
+const labelKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a < b ? -1 : 1));
+const escape = (v: string): string => v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+const renderLabels = (labels: Labels): string => {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escape(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+};
+
+class Counter {
+  public samples = new Map<string, CounterSample>();
+  constructor(public help: string) {}
+  inc(labels: Labels, by: number = 1): void {
+    const key = labelKey(labels), s = this.samples.get(key);
+    if (s) s.value += by; else this.samples.set(key, { labels, value: by });
+  }
+}
+
+class Histogram {
+  public samples = new Map<string, { labels: Labels; count: number; sum: number; counts: number[] }>();
+  constructor(public help: string, public bounds: number[]) {}
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.samples.get(key);
+    if (!s) { s = { labels, count: 0, sum: 0, counts: this.bounds.map(() => 0) }; this.samples.set(key, s); }
+    s.count++; s.sum += value;
+    this.bounds.forEach((b, i) => { if (value <= b) s!.counts[i]++; });
+  }
+  sample(s: { labels: Labels; count: number; sum: number; counts: number[] }): HistogramSample {
+    const buckets: Record<string, number> = {};
+    this.bounds.forEach((b, i) => { buckets[String(b)] = s.counts[i]; });
+    buckets["+Inf"] = s.count;
+    return { labels: s.labels, count: s.count, sum: s.sum, buckets };
+  }
+}
+
+// `flow.use(metrics)` on one or many flows; the collector keeps counting across runs until `reset()`. Node labels are class names,
+// `kind` tells flows from nodes, and a null action is counted as "default"
+export class FlowMetrics implements FlowHooks {
+  private counters: Record<string, Counter> = {};
+  private histograms: Record<string, Histogram> = {};
+  private prefix: string;
+  private constant: Labels;
+
+  constructor(opts: MetricsOptions = {}) {
+    this.prefix = opts.prefix ?? "pocketflow"; this.constant = opts.labels ?? {};
+    const c = (name: string, help: string): void => { this.counters[`${this.prefix}_${name}`] = new Counter(help); };
+    const h = (name: string, help: string, bounds: number[]): void => { this.histograms[`${this.prefix}_${name}`] = new Histogram(help, bounds); };
+    c("runs_total", "Completed node and flow runs by returned action");
+    c("failures_total", "Node and flow runs that threw, by error name");
+    c("retries_total", "Exec attempts that failed and were retried");
+    c("fallbacks_total", "Exec calls that ended in the fallback");
+    c("llm_tokens_total", "LLM tokens reported by nodes, by model and type (prompt or completion)");
+    h("run_duration_seconds", "Duration of node and flow runs", opts.durationBuckets ?? DURATION_BUCKETS);
+    h("phase_duration_seconds", "Duration of the prep, exec and post phases", opts.durationBuckets ?? DURATION_BUCKETS);
+    h("batch_size", "Items per batch node or batch flow run", opts.batchBuckets ?? BATCH_BUCKETS);
+  }
+
+  onNodeEnd(e: NodeEndEvent): void { this.ended(e, "node"); }
+  onFlowEnd(e: NodeEndEvent): void { this.ended(e, "flow"); }
+  onPhaseEnd(e: PhaseEndEvent): void {
+    const node = e.node.constructor.name;
+    this.histogram("phase_duration_seconds", { node, phase: e.phase }, e.durationMs / 1000);
+    if (e.items !== undefined) this.histogram("batch_size", { node }, e.items);
+  }
+  onRetry(e: RetryEvent): void { this.counter("retries_total", { node: e.node.constructor.name }); }
+  onFallback(e: FallbackEvent): void { this.counter("fallbacks_total", { node: e.node.constructor.name }); }
+  onUsage(e: UsageEvent): void {
+    const labels = { node: e.node.constructor.name, model: e.model ?? "unknown" };
+    this.counter("llm_tokens_total", { ...labels, type: "prompt" }, e.usage.promptTokens);
+    this.counter("llm_tokens_total", { ...labels, type: "completion" }, e.usage.completionTokens);
+  }
+
+  // Prometheus text exposition format (version 0.0.4), e.g. for a `/metrics` endpoint
+  toPrometheus(): string {
+    const lines: string[] = [], { counters, histograms } = this.snapshot();
+    for (const [name, { help, samples }] of Object.entries(counters)) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`, ...samples.map(s => `${name}${renderLabels(s.labels)} ${s.value}`));
+    }
+    for (const [name, { help, samples }] of Object.entries(histograms)) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+      for (const s of samples) {
+        for (const [le, count] of Object.entries(s.buckets)) lines.push(`${name}_bucket${renderLabels({ ...s.labels, le })} ${count}`);
+        lines.push(`${name}_sum${renderLabels(s.labels)} ${s.sum}`, `${name}_count${renderLabels(s.labels)} ${s.count}`);
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+  // Metrics without any samples are left out
+  snapshot(): MetricsSnapshot {
+    const snap: MetricsSnapshot = { counters: {}, histograms: {} };
+    for (const [name, c] of Object.entries(this.counters)) if (c.samples.size) snap.counters[name] = { help: c.help, samples: [...c.samples.values()].map(s => ({ ...s })) };
+    for (const [name, h] of Object.entries(this.histograms)) if (h.samples.size) snap.histograms[name] = { help: h.help, samples: [...h.samples.values()].map(s => h.sample(s)) };
+    return snap;
+  }
+  reset(): void {
+    for (const c of Object.values(this.counters)) c.samples.clear();
+    for (const h of Object.values(this.histograms)) h.samples.clear();
+  }
+
+  private ended(e: NodeEndEvent, kind: "node" | "flow"): void {
+    const node = e.node.constructor.name;
+    if (e.error !== undefined) this.counter("failures_total", { node, kind, error: e.error instanceof Error ? e.error.name : typeof e.error });
+    else this.counter("runs_total", { node, kind, action: e.action ?? "default" });
+    this.histogram("run_duration_seconds", { node, kind }, e.durationMs / 1000);
+  }
+  private counter(name: string, labels: Labels, by: number = 1): void { this.counters[`${this.prefix}_${name}`].inc({ ...this.constant, ...labels }, by); }
+  private histogram(name: string, labels: Labels, value: number): void { this.histograms[`${this.prefix}_${name}`].observe({ ...this.constant, ...labels }, value); }
+}
@@ -0,0 +1,198 @@
+// OpenTelemetry export - flow runs, nodes and (optionally) phases as OTLP/JSON spans under an incoming W3C trace context, posted to a
+// collector's HTTP endpoint or appended to a file; no OpenTelemetry packages needed
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { appendFile } from 'fs/promises';
+import { FallbackEvent, FlowError, FlowHooks, ItemEndEvent, ItemEvent, NodeEndEvent, NodeEvent, PhaseEndEvent, PhaseEvent, RetryEvent, UsageEvent } from './index';
+
+export interface SpanContext { traceId: string; spanId: string; sampled?: boolean; }
+export type AttributeValue = string | number | boolean;
+
+// OTLP/JSON shapes (ids are lowercase hex, times are nanosecond strings)
+export type OtlpAnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+export interface OtlpAttribute { key: string; value: OtlpAnyValue; }
+export interface OtlpEvent { timeUnixNano: string; name: string; attributes: OtlpAttribute[]; }
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: OtlpEvent[];
+  // 0 unset, 2 error
+  status: { code: number; message?: string };
+}
+export interface OtlpExportRequest {
+  resourceSpans: { resource: { attributes: OtlpAttribute[] }; scopeSpans: { scope: { name: string }; spans: OtlpSpan[] }[] }[];
+}
+
+export interface OtelExporterOptions {
+  // An OTLP/HTTP traces endpoint, e.g. "http://localhost:4318/v1/traces"
+  endpoint?: string;
+  headers?: Record<string, string>;
+  // Appends one export request per line, the format of the collector's file exporter and `otlpjsonfile` receiver
+  file?: string;
+  serviceName?: string;
+  resource?: Record<string, AttributeValue>;
+  // Parent of every run's root span unless `withContext` gives another; a traceparent header or a span context
+  parent?: string | SpanContext;
+  // Adds a child span per prep / exec / post phase
+  phases?: boolean;
+  fetch?: typeof fetch;
+  // Failed exports never fail the flow; they are reported here (console.warn by default)
+  onError?: (error: unknown) => void;
+}
+
+// `traceparent` header: 00-<32 hex trace id>-<16 hex span id>-<flags>; null when malformed or all zeros
+export const parseTraceparent = (header: string): SpanContext | null => {
+  const m = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/.exec(header.trim().toLowerCase());
+  if (!m || m[1] === "ff" || /^0+$/.test(m[2]) || /^0+$/.test(m[3])) return null;
+  return { traceId: m[2], spanId: m[3], sampled: (parseInt(m[4], 16) & 1) === 1 };
+};
+export const formatTraceparent = (ctx: SpanContext): string => `00-${ctx.traceId}-${ctx.spanId}-${ctx.sampled === false ? "00" : "01"}`;
+
+interface Trace { spans: OtlpSpan[]; open: number; sampled: boolean; }
+interface Live {
+  span: Omit<OtlpSpan, "attributes" | "endTimeUnixNano">;
+  attributes: Record<string, AttributeValue>;
+  trace: Trace;
+  // Spans of nodes run on their own (node.run()) have no node start/end events and close with their last phase
+  implicit: boolean;
+}
+
+const hex = (bytes: number): string => randomBytes(bytes).toString("hex");
+const nowNanos = (): string => (BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000)) * BigInt(1000)).toString();
+const toValue = (v: AttributeValue): OtlpAnyValue =>
+  typeof v === "string" ? { stringValue: v } : typeof v === "boolean" ? { boolValue: v } : Number.isInteger(v) ? { intValue: String(v) } : { doubleValue: v };
+const toAttributes = (attrs: Record<string, AttributeValue>): OtlpAttribute[] => Object.entries(attrs).map(([key, v]) => ({ key, value: toValue(v) }));
+const exception = (error: unknown): Record<string, AttributeValue> => error instanceof Error
+  ? { "exception.type": error.name, "exception.message": error.message, ...(error.stack ? { "exception.stacktrace": error.stack } : {}) }
+  : { "exception.type": typeof error, "exception.message": String(error) };
+
+// `flow.use(exporter)`. Every root run becomes one trace: the flow span, a child span per node run (nested flows under the flow that
+// ran them), a span per batch item (nodes of a batch-flow branch under their item), retries and fallbacks as span events, token usage
+// and batch sizes as attributes. Each trace is exported once its root span ends; `await exporter.flush()` before the process exits
+export class OtelExporter implements FlowHooks {
+  private nodes = new Map<number, Live>();
+  private phases = new Map<number, Live>();
+  private items = new Map<number, Live>();
+  private context = new AsyncLocalStorage<SpanContext | null>();
+  private parent: SpanContext | null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(public opts: OtelExporterOptions) {
+    if (!opts.endpoint && !opts.file) throw new FlowError("OtelExporter needs an endpoint or a file to export to");
+    this.parent = typeof opts.parent === "string" ? parseTraceparent(opts.parent) : opts.parent ?? null;
+  }
+
+  // Runs started inside `fn` continue the caller's trace, e.g. `exporter.withContext(req.headers.traceparent, () => flow.runAsync(shared))`
+  withContext<T>(parent: string | SpanContext | null | undefined, fn: () => T): T {
+    return this.context.run(typeof parent === "string" ? parseTraceparent(parent) : parent ?? null, fn);
+  }
+  // The span of a running node as a traceparent header, to pass the trace on to the services it calls
+  traceparent(node: { runId: number }): string | null {
+    const live = this.nodes.get(node.runId);
+    return live ? formatTraceparent({ traceId: live.span.traceId, spanId: live.span.spanId, sampled: live.trace.sampled }) : null;
+  }
+  // Resolves once every export started so far has finished
+  flush(): Promise<void> { return this.pending; }
+
+  onFlowStart(e: NodeEvent): void { this.nodeSpan(e, "flow").implicit = false; }
+  onFlowEnd(e: NodeEndEvent): void { this.ended(e); }
+  onNodeStart(e: NodeEvent): void { this.nodeSpan(e, "node").implicit = false; }
+  onNodeEnd(e: NodeEndEvent): void { this.ended(e); }
+  onPhaseStart(e: PhaseEvent): void {
+    const node = this.nodeSpan(e, "node");
+    if (this.opts.phases) this.phases.set(e.runId, this.open(`${node.span.name}.${e.phase}`, node, { "pocketflow.phase": e.phase }));
+  }
+  onPhaseEnd(e: PhaseEndEvent): void {
+    const node = this.nodes.get(e.runId), phase = this.phases.get(e.runId);
+    if (!node) return;
+    if (e.items !== undefined) node.attributes["pocketflow.batch.items"] = e.items;
+    if (e.attempt !== undefined) node.attributes["pocketflow.attempts"] = e.attempt;
+    if (phase) { this.phases.delete(e.runId); this.close(phase, e.error); }
+    if (node.implicit && (e.phase === "post" || e.error !== undefined)) { this.nodes.delete(e.runId); this.close(node, e.error); }
+  }
+  onItemStart(e: ItemEvent): void {
+    const batch = this.parentOf(e.parentRunId);
+    if (batch) this.items.set(e.runId, this.open(`${e.node.constructor.name} item ${e.index}`, batch, { "pocketflow.kind": "item", "pocketflow.item.index": e.index, "pocketflow.run_id": e.runId }));
+  }
+  onItemEnd(e: ItemEndEvent): void {
+    const live = this.items.get(e.runId);
+    if (live) { this.items.delete(e.runId); this.close(live, e.error); }
+  }
+  onRetry(e: RetryEvent): void { this.event(e, "retry", { "pocketflow.attempt": e.attempt, "pocketflow.retry.delay_s": e.delayMs / 1000, ...exception(e.error) }); }
+  onFallback(e: FallbackEvent): void { this.event(e, "fallback", { "pocketflow.attempt": e.attempt, ...exception(e.error) }); }
+  // Attribute names from the OpenTelemetry GenAI semantic conventions, summed over every call the node made
+  onUsage(e: UsageEvent): void {
+    const live = this.nodes.get(e.runId);
+    if (!live) return;
+    const a = live.attributes;
+    a["gen_ai.usage.input_tokens"] = Number(a["gen_ai.usage.input_tokens"] ?? 0) + e.usage.promptTokens;
+    a["gen_ai.usage.output_tokens"] = Number(a["gen_ai.usage.output_tokens"] ?? 0) + e.usage.completionTokens;
+    if (e.model !== null) a["gen_ai.response.model"] = e.model;
+  }
+
+  private nodeSpan(e: NodeEvent, kind: "flow" | "node"): Live {
+    let live = this.nodes.get(e.runId);
+    if (!live) {
+      live = this.open(e.node.constructor.name, this.parentOf(e.parentRunId), { "pocketflow.kind": kind, "pocketflow.run_id": e.runId });
+      if (Object.keys(e.node.params).length) live.attributes["pocketflow.params"] = JSON.stringify(e.node.params);
+      live.implicit = true; this.nodes.set(e.runId, live);
+    }
+    // A nested flow starts as a node of its parent flow
+    if (kind === "flow") live.attributes["pocketflow.kind"] = "flow";
+    return live;
+  }
+  private parentOf(runId: number | null): Live | undefined {
+    return runId === null ? undefined : this.items.get(runId) ?? this.phases.get(runId) ?? this.nodes.get(runId);
+  }
+  private open(name: string, parent: Live | undefined, attributes: Record<string, AttributeValue>): Live {
+    const incoming = parent ? null : this.context.getStore() ?? this.parent;
+    const trace = parent?.trace ?? { spans: [], open: 0, sampled: incoming?.sampled !== false };
+    trace.open++;
+    return {
+      span: {
+        traceId: parent?.span.traceId ?? incoming?.traceId ?? hex(16), spanId: hex(8), ...(parent ? { parentSpanId: parent.span.spanId } : incoming ? { parentSpanId: incoming.spanId } : {}),
+        // 1 = SPAN_KIND_INTERNAL
+        name, kind: 1, startTimeUnixNano: nowNanos(), events: [], status: { code: 0 },
+      },
+      attributes, trace, implicit: false,
+    };
+  }
+  private close(live: Live, error?: unknown): void {
+    if (error !== undefined) {
+      live.span.status = { code: 2, message: error instanceof Error ? error.message : String(error) };
+      live.span.events.push({ timeUnixNano: nowNanos(), name: "exception", attributes: toAttributes(exception(error)) });
+    }
+    live.trace.spans.push({ ...live.span, endTimeUnixNano: nowNanos(), attributes: toAttributes(live.attributes) });
+    if (--live.trace.open === 0 && live.trace.sampled) this.export(live.trace.spans);
+  }
+  private ended(e: NodeEndEvent): void {
+    const live = this.nodes.get(e.runId);
+    if (!live) return;
+    if (e.action != null) live.attributes["pocketflow.action"] = e.action;
+    this.nodes.delete(e.runId); this.close(live, e.error);
+  }
+  private event(e: NodeEvent, name: string, attributes: Record<string, AttributeValue>): void {
+    this.nodes.get(e.runId)?.span.events.push({ timeUnixNano: nowNanos(), name, attributes: toAttributes(attributes) });
+  }
+  private export(spans: OtlpSpan[]): void {
+    const { endpoint, file, headers, serviceName = "pocketflow", resource = {}, onError = (err: unknown) => console.warn(`OTLP export failed: ${err}`) } = this.opts;
+    const request: OtlpExportRequest = {
+      resourceSpans: [{ resource: { attributes: toAttributes({ "service.name": serviceName, ...resource }) }, scopeSpans: [{ scope: { name: "pocketflow" }, spans }] }],
+    };
+    const body = JSON.stringify(request);
+    // Chained, so file lines keep the order the traces finished in
+    this.pending = this.pending.then(async () => {
+      if (file) await appendFile(file, body + "\n");
+      if (endpoint) {
+        const res = await (this.opts.fetch ?? fetch)(endpoint, { method: "POST", headers: { "content-type": "application/json", ...headers }, body });
+        if (!res.ok) throw new Error(`${endpoint} answered HTTP ${res.status}`);
+      }
+    }).catch(onError);
+  }
+}
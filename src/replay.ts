@@ -0,0 +1,73 @@
+// Record/replay of LLM calls - wraps callLLM-style functions so flows can be regression-tested offline against fixture files
+import * as fs from 'fs';
+import * as path from 'path';
+import { stableHash } from './cache';
+
+// strict: replay only, an unrecorded call throws; record: replay what is recorded and record the rest; update: call everything for real
+// and rewrite the fixture from scratch
+export type ReplayMode = "strict" | "record" | "update";
+export interface RecordedCall { request: unknown; response: unknown; }
+export interface ReplayOptions {
+  mode?: ReplayMode;
+  // Maps a request to what it is matched by, e.g. to drop a timestamp from the prompt; the fixture still stores the full request
+  match?: (request: unknown) => unknown;
+}
+
+export class UnrecordedCallError extends Error {
+  constructor(public request: unknown, public file: string) {
+    const text = JSON.stringify(request) ?? String(request);
+    super(`No recorded response in ${file} for ${text.length > 200 ? `${text.slice(0, 200)}...` : text}; rerun with mode "record" to add it`);
+    this.name = "UnrecordedCallError";
+  }
+}
+
+// Identical requests replay their recorded responses in order, so a prompt that repeats in a loop can get different answers
+export class LLMRecorder {
+  public mode: ReplayMode;
+  public calls: RecordedCall[];
+  private used = new Map<string, number>();
+
+  constructor(public file: string, private opts: ReplayOptions = {}) {
+    this.mode = opts.mode ?? "strict";
+    this.calls = this.mode === "update" || !fs.existsSync(file) ? [] : JSON.parse(fs.readFileSync(file, 'utf8')).calls;
+  }
+
+  // A single argument is recorded as the request itself, several as an array
+  wrap<A extends unknown[], R>(fn: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+    return async (...args) => {
+      const request = args.length === 1 ? args[0] : args, recorded = this.lookup(request);
+      return recorded ? recorded.response as R : this.record(request, await fn(...args));
+    };
+  }
+  wrapSync<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+    return (...args) => {
+      const request = args.length === 1 ? args[0] : args, recorded = this.lookup(request);
+      return recorded ? recorded.response as R : this.record(request, fn(...args));
+    };
+  }
+  // Recorded calls never replayed since the recorder was created - usually prompts the flow no longer sends
+  unused(): RecordedCall[] {
+    const seen = new Map<string, number>();
+    return this.calls.filter(c => { const k = this.key(c.request), n = (seen.get(k) ?? 0) + 1; seen.set(k, n); return n > (this.used.get(k) ?? 0); });
+  }
+
+  private key(request: unknown): string { return stableHash(this.opts.match ? this.opts.match(request) : request); }
+  // Returns the next recorded call for the request, or null when it has to go to the real function
+  private lookup(request: unknown): RecordedCall | null {
+    const key = this.key(request), n = this.used.get(key) ?? 0;
+    this.used.set(key, n + 1);
+    if (this.mode === "update") return null;
+    const recorded = this.calls.filter(c => this.key(c.request) === key)[n];
+    if (recorded) return recorded;
+    if (this.mode === "strict") throw new UnrecordedCallError(request, this.file);
+    return null;
+  }
+  private record<R>(request: unknown, response: R): R {
+    this.calls.push({ request, response: response === undefined ? null : response });
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ calls: this.calls }, null, 2) + "\n");
+    fs.renameSync(tmp, this.file);
+    return response;
+  }
+}
@@ -0,0 +1,62 @@
+// Step-through execution - runs a flow one node at a time so its state can be inspected and changed between nodes
+import { Action, AnyNode, AsyncFlow, Flow, FlowError, SharedStore } from './index';
+
+// A node class pauses before a node of that class runs; an action string pauses after a node returns that action
+export type Breakpoint = string | (abstract new (...args: any[]) => AnyNode);
+
+// Steps the flow's own nodes; a nested flow runs as a single step. Between steps `shared` may be edited and `forceAction` may
+// reroute the flow, so the next step runs a different node
+export class FlowStepper<S extends SharedStore = SharedStore> {
+  // The node that runs next, or null once the last node has run
+  public current: AnyNode | null;
+  // The copy of the node that ran last (with the params it ran with) and the action it returned
+  public previous: AnyNode | null = null;
+  public action: Action = undefined;
+  public steps: number = 0;
+  public finished: boolean = false;
+  // The flow's final action, set once finished
+  public result: Action = undefined;
+  private breakpoints = new Set<Breakpoint>();
+  private started = false;
+  private prepRes: any;
+
+  constructor(public flow: Flow<S>, public shared: S) { this.current = flow.startNode; }
+
+  breakAt(...points: Breakpoint[]): this { points.forEach(p => this.breakpoints.add(p)); return this; }
+  clearBreakpoints(): this { this.breakpoints.clear(); return this; }
+  get atBreakpoint(): boolean {
+    for (const p of this.breakpoints) {
+      if (typeof p === "string" ? this.previous !== null && this.action === p : this.current instanceof p) return true;
+    }
+    return false;
+  }
+
+  // Replaces the pending action; the next step runs the successor for it, or finishes the flow if there is none
+  forceAction(action: string): AnyNode | null {
+    if (!this.previous || this.finished) throw new FlowError("No pending action: no node has run yet, or the flow has finished");
+    this.action = action; this.current = this.previous.successors[action] ?? null;
+    return this.current;
+  }
+
+  // Runs the current node, or finishes the flow (its post) once no node is left
+  async step(): Promise<void> {
+    if (this.finished) throw new FlowError("Flow has finished");
+    const flow = this.flow, isAsync = flow instanceof AsyncFlow;
+    if (!this.started) {
+      this.started = true; flow.ctx = {};
+      this.prepRes = isAsync ? await flow.prepAsync(this.shared) : flow.prep(this.shared);
+    }
+    if (!this.current) {
+      this.result = isAsync ? await flow.postAsync(this.shared, this.prepRes, this.action) : flow.post(this.shared, this.prepRes, this.action);
+      this.finished = true; return;
+    }
+    const { node, action } = isAsync ? await flow._stepAsync(this.current, this.shared, flow.params) : flow._step(this.current, this.shared, flow.params);
+    this.previous = node; this.action = action; this.steps++;
+    this.current = flow._transition(node, action, this.shared);
+  }
+
+  // Steps until a breakpoint is hit or the flow finishes; always runs at least one step
+  async continue(): Promise<void> {
+    do await this.step(); while (!this.finished && !this.atBreakpoint);
+  }
+}
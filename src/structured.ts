@@ -0,0 +1,157 @@
+// Structured LLM output - extracts JSON or YAML from a (fenced) reply, validates it against a schema and re-asks with the errors
+import { AsyncNode, SharedStore } from './index';
+import { ChatMessage, LLMClient } from './llm';
+
+// The JSON Schema keywords the validator understands
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null" | Array<"object" | "array" | "string" | "number" | "integer" | "boolean" | "null">;
+  properties?: Record<string, JsonSchema>; required?: string[]; additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema; minItems?: number; maxItems?: number;
+  enum?: unknown[]; const?: unknown; anyOf?: JsonSchema[];
+  minimum?: number; maximum?: number; minLength?: number; maxLength?: number; pattern?: string;
+  description?: string;
+}
+// `path` is a JSON Pointer into the value, "" for the value itself
+export interface SchemaIssue { path: string; message: string; }
+
+const typeOf = (v: unknown): string => v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+const show = (v: unknown): string => JSON.stringify(v) ?? String(v);
+
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = ""): SchemaIssue[] {
+  const issues: SchemaIssue[] = [], add = (message: string, at: string = path): void => { issues.push({ path: at, message }); };
+  if (schema.anyOf && !schema.anyOf.some(s => validateSchema(value, s, path).length === 0)) add("must match one of the allowed shapes");
+  if (schema.const !== undefined && show(value) !== show(schema.const)) add(`must be ${show(schema.const)}`);
+  if (schema.enum && !schema.enum.some(e => show(e) === show(value))) add(`must be one of ${schema.enum.map(show).join(", ")}`);
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type], actual = typeOf(value);
+    const ok = types.some(t => t === actual || (t === "integer" && Number.isInteger(value)) || (t === "number" && actual === "number" && isFinite(value as number)));
+    if (!ok) { add(`must be ${types.join(" or ")}, got ${actual}`); return issues; }
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) add(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) add(`must be <= ${schema.maximum}`);
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) add(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) add(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) add(`must match /${schema.pattern}/`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) add(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) add(`must have at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((v, i) => issues.push(...validateSchema(v, schema.items!, `${path}/${i}`)));
+  }
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>, key = (k: string): string => `${path}/${k.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+    for (const k of schema.required ?? []) if (!(k in obj)) add("is required", key(k));
+    for (const [k, v] of Object.entries(obj)) {
+      const sub = schema.properties?.[k] ?? (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+      if (sub) issues.push(...validateSchema(v, sub, key(k)));
+      else if (schema.additionalProperties === false && !schema.properties?.[k]) add("is not an allowed property", key(k));
+    }
+  }
+  return issues;
+}
+
+// YAML subset LLMs produce: nested maps and lists by indentation, plain/quoted scalars, `|` and `>` block strings, inline JSON-style [..] and {..}
+export function parseYaml(text: string): unknown {
+  const lines = text.split(/\r?\n/).map(raw => ({ indent: raw.length - raw.trimStart().length, text: raw.trim() }))
+    .filter(l => l.text && !l.text.startsWith("#") && l.text !== "---");
+  let i = 0;
+  const scalar = (s: string): unknown => {
+    const quoted = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*(#.*)?$/.exec(s);
+    if (quoted) return quoted[1].startsWith('"') ? JSON.parse(quoted[1]) : quoted[1].slice(1, -1).replace(/''/g, "'");
+    s = s.replace(/\s+#.*$/, "");
+    if (/^(true|false)$/i.test(s)) return s.toLowerCase() === "true";
+    if (/^(null|~)?$/i.test(s)) return null;
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(s)) return Number(s);
+    if (/^[[{]/.test(s)) { try { return JSON.parse(s); } catch { /* not JSON: keep the text */ } }
+    return s;
+  };
+  const blockString = (parentIndent: number, folded: boolean): string => {
+    const body: { indent: number; text: string }[] = [];
+    while (i < lines.length && lines[i].indent > parentIndent) body.push(lines[i++]);
+    const base = Math.min(...body.map(l => l.indent));
+    return body.map(l => " ".repeat(l.indent - base) + l.text).join(folded ? " " : "\n");
+  };
+  // Value after `key:` or `- `: inline scalar, block string, or a nested block on the following lines
+  const value = (rest: string, indent: number): unknown => {
+    if (rest === "|" || rest === ">") return blockString(indent, rest === ">");
+    if (rest !== "") return scalar(rest);
+    if (i < lines.length && (lines[i].indent > indent || (lines[i].indent === indent && lines[i].text.startsWith("- ")))) return block(lines[i].indent);
+    return null;
+  };
+  const block = (indent: number): unknown => {
+    if (lines[i].text === "-" || lines[i].text.startsWith("- ")) {
+      const list: unknown[] = [];
+      while (i < lines.length && lines[i].indent === indent && (lines[i].text === "-" || lines[i].text.startsWith("- "))) {
+        const rest = lines[i].text.slice(1).trim();
+        // `- key: value` starts a map whose keys line up two columns in
+        if (/^[^"'[{][^:]*:(\s|$)/.test(rest)) { lines[i] = { indent: indent + 2, text: rest }; list.push(block(indent + 2)); }
+        else { i++; list.push(value(rest, indent)); }
+      }
+      return list;
+    }
+    const map: Record<string, unknown> = {};
+    while (i < lines.length && lines[i].indent === indent) {
+      const m = /^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/.exec(lines[i].text);
+      if (!m) throw new SyntaxError(`Invalid YAML line: ${lines[i].text}`);
+      i++; map[String(scalar(m[1]))] = value((m[2] ?? "").trim(), indent);
+    }
+    return map;
+  };
+  if (!lines.length) return null;
+  if (lines.length === 1 && !/^[^"'[{][^:]*:(\s|$)/.test(lines[0].text) && !lines[0].text.startsWith("- ")) return scalar(lines[0].text);
+  const result = block(lines[0].indent);
+  if (i < lines.length) throw new SyntaxError(`Invalid YAML indentation at: ${lines[i].text}`);
+  return result;
+}
+
+// Takes the first fenced block (```json / ```yaml / ```), else the whole reply; JSON is tried before YAML unless the fence says yaml
+export function extractStructured(output: string): unknown {
+  const fence = /```([\w-]*)[^\n]*\n([\s\S]*?)```/.exec(output), lang = fence?.[1].toLowerCase() ?? "", body = fence ? fence[2] : output;
+  if (lang === "yaml" || lang === "yml") return parseYaml(body);
+  try { return JSON.parse(body); } catch { /* fall through */ }
+  const start = body.search(/[[{]/), end = Math.max(body.lastIndexOf("}"), body.lastIndexOf("]"));
+  if (!fence && start >= 0 && end > start) { try { return JSON.parse(body.slice(start, end + 1)); } catch { /* fall through */ } }
+  if (lang === "json") throw new SyntaxError("Fenced JSON block is not valid JSON");
+  return parseYaml(body);
+}
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public issues: SchemaIssue[], public output: string) { super(message); this.name = "StructuredOutputError"; }
+}
+
+// prepAsync returns the prompt (or whole conversation); exec asks `llm`, and re-asks up to `maxReasks` times with the parse or validation
+// errors before throwing a StructuredOutputError into the usual retry/fallback handling. postAsync receives the validated value as T
+export abstract class StructuredOutputNode<S extends SharedStore = SharedStore, T = unknown, A extends string = string>
+  extends AsyncNode<S, string | ChatMessage[], T, A> {
+  abstract schema: JsonSchema;
+  abstract llm: LLMClient | ((messages: ChatMessage[]) => Promise<string>);
+  public maxReasks: number = 2;
+  // Named in re-ask messages; the reply may still use either
+  public format: "json" | "yaml" = "json";
+
+  async execAsync(prompt: string | ChatMessage[]): Promise<T> {
+    const messages: ChatMessage[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : [...prompt];
+    for (let ask = 0; ; ask++) {
+      let output: string;
+      if (typeof this.llm === "function") output = await this.llm(messages);
+      else {
+        const res = await this.llm.chat(messages, { signal: this.signal });
+        if (res.usage) this.reportUsage(res.usage, res.model);
+        output = res.content;
+      }
+      let issues: SchemaIssue[], value: unknown;
+      try { value = extractStructured(output); issues = validateSchema(value, this.schema); }
+      catch (e) { issues = [{ path: "", message: `could not be parsed: ${(e as Error).message}` }]; }
+      if (!issues.length) return value as T;
+      const list = issues.map(x => `- ${x.path || "(root)"}: ${x.message}`).join("\n");
+      if (ask >= this.maxReasks) throw new StructuredOutputError(`${this.constructor.name} got invalid output after ${ask + 1} asks:\n${list}`, issues, output);
+      messages.push({ role: "assistant", content: output }, {
+        role: "user",
+        content: `Your reply was not valid:\n${list}\nReply again with only the corrected ${this.format.toUpperCase()} in a \`\`\`${this.format} fenced block.`,
+      });
+    }
+  }
+}
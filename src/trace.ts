@@ -0,0 +1,86 @@
+// Structured trace recorder - builds a tree of spans (flow > node > phase) from lifecycle hooks
+import { Action, FlowHooks, ItemEvent, NodeEvent, NodeEndEvent, Phase, PhaseEvent, PhaseEndEvent, RetryEvent, FallbackEvent, TransitionEvent } from './index';
+
+export interface TraceSpan {
+  id: number;
+  kind: "flow" | "node" | "phase";
+  name: string;
+  phase?: Phase;
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  action?: Action;
+  next?: string | null;
+  attempt?: number;
+  retries: { attempt: number; error: string }[];
+  fallback?: string;
+  error?: string;
+  children: TraceSpan[];
+}
+
+const message = (e: unknown): string => e instanceof Error ? e.message : String(e);
+
+export class TraceRecorder implements FlowHooks {
+  public roots: TraceSpan[] = [];
+  private nodes = new Map<number, TraceSpan>();
+  private phases = new Map<number, TraceSpan>();
+  // Batch items get no span of their own: the nodes of a batch-flow branch nest under the span of the batch flow
+  private items = new Map<number, TraceSpan | undefined>();
+  private lastId = 0;
+
+  private open(kind: TraceSpan["kind"], name: string, parent: TraceSpan | undefined, phase?: Phase): TraceSpan {
+    const s: TraceSpan = { id: ++this.lastId, kind, name, startTime: Date.now(), retries: [], children: [] };
+    if (phase) s.phase = phase;
+    (parent ? parent.children : this.roots).push(s); return s;
+  }
+  private close(s: TraceSpan | undefined, durationMs: number, error?: unknown): void {
+    if (!s || s.endTime !== undefined) return;
+    s.endTime = Date.now(); s.durationMs = durationMs;
+    if (error !== undefined) s.error = message(error);
+  }
+  private nodeSpan(e: NodeEvent, kind: "flow" | "node"): TraceSpan {
+    let s = this.nodes.get(e.runId);
+    if (!s) {
+      const parent = e.parentRunId === null ? undefined : this.parentSpan(e.parentRunId);
+      s = this.open(kind, e.node.constructor.name, parent); this.nodes.set(e.runId, s);
+    }
+    if (kind === "flow") s.kind = "flow";
+    return s;
+  }
+
+  private parentSpan(runId: number): TraceSpan | undefined { return this.phases.get(runId) || this.nodes.get(runId) || this.items.get(runId); }
+
+  onFlowStart(e: NodeEvent): void { this.nodeSpan(e, "flow"); }
+  onFlowEnd(e: NodeEndEvent): void { const s = this.nodes.get(e.runId); if (s) s.action = e.action; this.close(s, e.durationMs, e.error); }
+  onNodeStart(e: NodeEvent): void { this.nodeSpan(e, "node"); }
+  onNodeEnd(e: NodeEndEvent): void { const s = this.nodes.get(e.runId); if (s) s.action = e.action; this.close(s, e.durationMs, e.error); }
+  onPhaseStart(e: PhaseEvent): void { this.phases.set(e.runId, this.open("phase", e.phase, this.nodeSpan(e, "node"), e.phase)); }
+  onPhaseEnd(e: PhaseEndEvent): void {
+    const s = this.phases.get(e.runId); if (!s) return;
+    if (e.attempt !== undefined) { s.attempt = e.attempt; this.nodes.get(e.runId)!.attempt = e.attempt; }
+    this.close(s, e.durationMs, e.error); this.phases.delete(e.runId);
+  }
+  onRetry(e: RetryEvent): void { this.nodes.get(e.runId)?.retries.push({ attempt: e.attempt, error: message(e.error) }); }
+  onFallback(e: FallbackEvent): void { const s = this.nodes.get(e.runId); if (s) s.fallback = message(e.error); }
+  onItemStart(e: ItemEvent): void { this.items.set(e.runId, this.parentSpan(e.parentRunId!)); }
+  onItemEnd(e: ItemEvent): void { this.items.delete(e.runId); }
+  onTransition(e: TransitionEvent): void { const s = this.nodes.get(e.runId); if (s) s.next = e.to ? e.to.constructor.name : null; }
+
+  reset(): void { this.roots = []; this.nodes.clear(); this.phases.clear(); this.items.clear(); }
+  toJSON(): TraceSpan[] { return this.roots; }
+  // Indented text rendering, one span per line: `Name [12ms] -> "action"`
+  format(opts: { phases?: boolean } = {}): string {
+    const lines: string[] = [];
+    const walk = (s: TraceSpan, depth: number): void => {
+      if (s.kind === "phase" && !opts.phases) { s.children.forEach(c => walk(c, depth)); return; }
+      let line = `${"  ".repeat(depth)}${s.name} [${s.durationMs ?? "?"}ms]`;
+      if (s.kind !== "phase" && s.action !== undefined) line += ` -> ${JSON.stringify(s.action)}`;
+      if (s.retries.length) line += ` (retries: ${s.retries.length})`;
+      if (s.fallback !== undefined) line += ` (fallback: ${s.fallback})`;
+      if (s.error !== undefined) line += ` !! ${s.error}`;
+      lines.push(line); s.children.forEach(c => walk(c, depth + 1));
+    };
+    this.roots.forEach(r => walk(r, 0));
+    return lines.join("\n");
+  }
+}
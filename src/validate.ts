@@ -0,0 +1,83 @@
+// Static flow validation - finds graph mistakes before a run instead of as runtime warnings deep inside it
+import { AnyNode, Flow, AsyncFlow, AsyncNode, FlowError } from './index';
+
+export type IssueCode = "missing-start" | "unreachable" | "loop-without-exit" | "async-in-sync-flow" | "shared-node" | "unknown-action" | "unhandled-action";
+export interface FlowIssue { code: IssueCode; severity: "error" | "warning"; message: string; path: string; node?: AnyNode; }
+export interface ValidationResult { valid: boolean; issues: FlowIssue[]; }
+// `nodes`: every node meant to be part of the flow (reports the ones no path reaches); `strict`: report warnings as errors
+export interface ValidateOptions { nodes?: AnyNode[]; strict?: boolean; }
+
+// Nodes declare the actions their `post` can return with a static field: `static actions = ["search", "answer"]`
+export const declaredActions = (node: AnyNode): readonly string[] | undefined => (node.constructor as { actions?: readonly string[] }).actions;
+
+const reachable = (start: AnyNode | null): AnyNode[] => {
+  const seen: AnyNode[] = start ? [start] : [];
+  for (let i = 0; i < seen.length; i++) for (const n of Object.values(seen[i].successors)) if (!seen.includes(n)) seen.push(n);
+  return seen;
+};
+
+// Tarjan's strongly connected components, keeping only the ones that form a cycle
+const cycles = (nodes: AnyNode[]): AnyNode[][] => {
+  const index = new Map<AnyNode, number>(), low = new Map<AnyNode, number>(), stack: AnyNode[] = [], result: AnyNode[][] = [];
+  const visit = (v: AnyNode): void => {
+    index.set(v, index.size); low.set(v, index.get(v)!); stack.push(v);
+    for (const w of Object.values(v.successors)) {
+      if (!index.has(w)) { visit(w); low.set(v, Math.min(low.get(v)!, low.get(w)!)); }
+      else if (stack.includes(w)) low.set(v, Math.min(low.get(v)!, index.get(w)!));
+    }
+    if (low.get(v) !== index.get(v)) return;
+    const scc: AnyNode[] = [];
+    let w: AnyNode;
+    do { w = stack.pop()!; scc.push(w); } while (w !== v);
+    if (scc.length > 1 || Object.values(v.successors).includes(v)) result.push(scc.reverse());
+  };
+  nodes.forEach(n => { if (!index.has(n)) visit(n); });
+  return result;
+};
+
+export function validateFlow(flow: Flow<any>, opts: ValidateOptions = {}): ValidationResult {
+  const issues: FlowIssue[] = [], owner = new Map<AnyNode, { flow: Flow<any>; path: string }>(), walked = new Set<Flow<any>>();
+  const report = (code: IssueCode, severity: FlowIssue["severity"], path: string, message: string, node?: AnyNode): void => {
+    issues.push({ code, severity: opts.strict ? "error" : severity, message, path, ...(node ? { node } : {}) });
+  };
+  const walk = (f: Flow<any>, path: string): void => {
+    if (walked.has(f)) return;
+    walked.add(f);
+    const isAsync = f instanceof AsyncFlow, nodes = reachable(f.startNode);
+    if (!f.startNode) report("missing-start", "error", path, `${path} has no start node`);
+    for (const node of nodes) {
+      const name = node.constructor.name, at = `${path} > ${name}`, prior = owner.get(node);
+      if (prior && prior.flow !== f) report("shared-node", "warning", at, `${name} instance is also used in ${prior.path}; flows share its successors`, node);
+      else owner.set(node, { flow: f, path });
+      if (!isAsync && (node instanceof AsyncNode || node instanceof AsyncFlow)) report("async-in-sync-flow", "error", at, `${name} is async but ${path} is a sync Flow; use AsyncFlow`, node);
+      const declared = declaredActions(node);
+      if (declared) {
+        for (const action of Object.keys(node.successors)) {
+          if (!declared.includes(action)) report("unknown-action", "error", at, `${name} has a successor for '${action}', which is not one of its actions [${declared.join(", ")}]`, node);
+        }
+        if (Object.keys(node.successors).length > 0) {
+          for (const action of declared) {
+            if (!(action in node.successors)) report("unhandled-action", "warning", at, `${name} can return '${action}', which has no successor and ends the flow`, node);
+          }
+        }
+      }
+      if (node instanceof Flow) walk(node, at);
+    }
+    for (const loop of cycles(nodes)) {
+      const exits = loop.some(n => Object.values(n.successors).some(s => !loop.includes(s)) || (declaredActions(n) ?? []).some(a => !(a in n.successors)));
+      if (!exits) report("loop-without-exit", "error", path, `Loop ${[...loop, loop[0]].map(n => n.constructor.name).join(" -> ")} in ${path} has no exit action`, loop[0]);
+    }
+  };
+  const root = flow.constructor.name;
+  walk(flow, root);
+  for (const node of opts.nodes ?? []) {
+    if (!owner.has(node)) report("unreachable", "warning", `${root} > ${node.constructor.name}`, `${node.constructor.name} is not reachable from ${root}'s start node`, node);
+  }
+  return { valid: !issues.some(i => i.severity === "error"), issues };
+}
+
+// Throws a FlowError listing every error (and, with `strict`, every warning)
+export function assertValidFlow(flow: Flow<any>, opts: ValidateOptions = {}): void {
+  const { valid, issues } = validateFlow(flow, opts);
+  if (!valid) throw new FlowError(`Invalid flow:\n${issues.filter(i => i.severity === "error").map(i => `  [${i.code}] ${i.message}`).join("\n")}`);
+}
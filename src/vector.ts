@@ -0,0 +1,376 @@
+// Vector store - vectors with ids, metadata and text, cosine/dot/L2 top-k search with metadata filters, file persistence and an
+// optional HNSW index for large collections; IndexDocumentsNode and RetrieveNode plug it into a flow
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AsyncNode, SharedStore } from './index';
+import { stableHash } from './cache';
+
+export type Metric = "cosine" | "dot" | "l2";
+export type Metadata = Record<string, unknown>;
+export interface VectorRecord<M extends Metadata = Metadata> { id: string; vector: ArrayLike<number>; metadata?: M; text?: string; }
+// `score` is the cosine similarity, dot product or L2 distance of the metric; hits come best first (highest similarity, lowest distance)
+export interface SearchHit<M extends Metadata = Metadata> { id: string; score: number; metadata: M; text?: string; }
+
+// Field equality ({ lang: "en" }, which also matches an array field containing "en") or operators per field
+// ({ year: { $gte: 2020 }, tag: { $in: ["a", "b"] } }); $and / $or combine whole filters
+export type MetadataFilter = { $and?: MetadataFilter[]; $or?: MetadataFilter[]; [field: string]: unknown };
+export interface SearchOptions<M extends Metadata = Metadata> { k?: number; filter?: MetadataFilter | ((metadata: M, id: string) => boolean); }
+
+// `M` neighbours per node (twice that on the bottom layer), `efConstruction` / `efSearch` candidate list sizes when building / querying;
+// larger values trade speed for recall. `seed` makes the layer assignment, and so the graph, reproducible
+export interface HnswOptions { M?: number; efConstruction?: number; efSearch?: number; seed?: number; }
+export interface VectorStoreOptions { metric?: Metric; dimension?: number; index?: "flat" | "hnsw" | HnswOptions; }
+
+export class VectorStoreError extends Error { constructor(message: string) { super(message); this.name = "VectorStoreError"; } }
+
+const show = (v: unknown): string => JSON.stringify(v) ?? String(v);
+const isOperators = (c: unknown): c is Record<string, unknown> =>
+  typeof c === "object" && c !== null && !Array.isArray(c) && Object.keys(c).length > 0 && Object.keys(c).every(k => k.startsWith("$"));
+const compare = (v: unknown, c: unknown, ok: (d: number) => boolean): boolean =>
+  (typeof v === "number" || typeof v === "string") && typeof v === typeof c && ok(v < (c as typeof v) ? -1 : v > (c as typeof v) ? 1 : 0);
+const matchCondition = (v: unknown, cond: unknown): boolean => {
+  if (!isOperators(cond)) return Array.isArray(v) && !Array.isArray(cond) ? v.some(x => show(x) === show(cond)) : show(v) === show(cond);
+  return Object.entries(cond).every(([op, arg]) => {
+    switch (op) {
+      case "$eq": return matchCondition(v, arg);
+      case "$ne": return !matchCondition(v, arg);
+      case "$in": return (arg as unknown[]).some(a => matchCondition(v, a));
+      case "$nin": return !(arg as unknown[]).some(a => matchCondition(v, a));
+      case "$gt": return compare(v, arg, d => d > 0);
+      case "$gte": return compare(v, arg, d => d >= 0);
+      case "$lt": return compare(v, arg, d => d < 0);
+      case "$lte": return compare(v, arg, d => d <= 0);
+      case "$exists": return (v !== undefined) === arg;
+      default: throw new VectorStoreError(`Unknown filter operator '${op}'`);
+    }
+  });
+};
+export const matchesFilter = (metadata: Metadata, filter: MetadataFilter): boolean => Object.entries(filter).every(([field, cond]) =>
+  field === "$and" ? (cond as MetadataFilter[]).every(f => matchesFilter(metadata, f))
+    : field === "$or" ? (cond as MetadataFilter[]).some(f => matchesFilter(metadata, f))
+      : matchCondition(metadata[field], cond));
+
+// Binary heap ordered by `before`; the HNSW search keeps its candidate and result lists in two of them
+class Heap<T> {
+  private items: T[] = [];
+  constructor(private before: (a: T, b: T) => boolean) {}
+  get size(): number { return this.items.length; }
+  peek(): T | undefined { return this.items[0]; }
+  push(item: T): void {
+    const a = this.items; a.push(item);
+    for (let i = a.length - 1, p = (i - 1) >> 1; i > 0 && this.before(a[i], a[p]); i = p, p = (i - 1) >> 1) [a[i], a[p]] = [a[p], a[i]];
+  }
+  pop(): T | undefined {
+    const a = this.items, top = a[0], last = a.pop();
+    if (a.length && last !== undefined) {
+      a[0] = last;
+      for (let i = 0; ;) {
+        const l = 2 * i + 1, r = l + 1;
+        let m = i;
+        if (l < a.length && this.before(a[l], a[m])) m = l;
+        if (r < a.length && this.before(a[r], a[m])) m = r;
+        if (m === i) break;
+        [a[i], a[m]] = [a[m], a[i]]; i = m;
+      }
+    }
+    return top;
+  }
+}
+
+interface Candidate { slot: number; d: number; }
+const nearer = (a: Candidate, b: Candidate): boolean => a.d < b.d;
+const farther = (a: Candidate, b: Candidate): boolean => a.d > b.d;
+// mulberry32: small seeded PRNG so a graph built twice from the same inserts comes out the same
+const random = (seed: number): (() => number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Hierarchical navigable small world graph over store slots (Malkov & Yashunin). Deleted slots stay in the graph as waypoints and are
+// skipped through `accept`
+class Hnsw {
+  public M: number; public efConstruction: number; public efSearch: number;
+  public links: number[][][] = [];
+  public entry = -1;
+  public maxLevel = -1;
+  private rand: () => number;
+  constructor(opts: HnswOptions, private dist: (q: Float32Array, qNorm: number, slot: number) => number,
+    private vector: (slot: number) => [Float32Array, number]) {
+    this.M = opts.M ?? 16; this.efConstruction = opts.efConstruction ?? 200; this.efSearch = opts.efSearch ?? 50;
+    this.rand = random(opts.seed ?? 42);
+  }
+
+  insert(slot: number): void {
+    const [q, qNorm] = this.vector(slot), level = Math.floor(-Math.log(1 - this.rand()) / Math.log(this.M));
+    this.links[slot] = Array.from({ length: level + 1 }, () => []);
+    if (this.entry < 0) { this.entry = slot; this.maxLevel = level; return; }
+    let eps: Candidate[] = [{ slot: this.entry, d: this.dist(q, qNorm, this.entry) }];
+    for (let l = this.maxLevel; l > level; l--) eps = this.searchLayer(q, qNorm, eps, 1, l);
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      eps = this.searchLayer(q, qNorm, eps, this.efConstruction, l);
+      const max = l === 0 ? 2 * this.M : this.M;
+      this.links[slot][l] = this.select(eps, this.M);
+      for (const n of this.links[slot][l]) {
+        const back = this.links[n][l]; back.push(slot);
+        if (back.length > max) {
+          const [nv, nNorm] = this.vector(n);
+          this.links[n][l] = this.select(back.map(s => ({ slot: s, d: this.dist(nv, nNorm, s) })).sort((a, b) => a.d - b.d), max);
+        }
+      }
+    }
+    if (level > this.maxLevel) { this.entry = slot; this.maxLevel = level; }
+  }
+
+  // Widens the bottom-layer search until `k` accepted slots turn up or the whole reachable graph has been seen
+  search(q: Float32Array, qNorm: number, k: number, accept: (slot: number) => boolean, total: number): Candidate[] {
+    if (this.entry < 0 || k <= 0) return [];
+    let eps: Candidate[] = [{ slot: this.entry, d: this.dist(q, qNorm, this.entry) }];
+    for (let l = this.maxLevel; l > 0; l--) eps = this.searchLayer(q, qNorm, eps, 1, l);
+    for (let ef = Math.max(this.efSearch, k); ; ef *= 4) {
+      const found = this.searchLayer(q, qNorm, eps, ef, 0, accept);
+      if (found.length >= k || ef >= total) return found.slice(0, k);
+    }
+  }
+
+  // Best-first search of one layer; with `accept`, the `ef` result slots are the accepted ones while every slot still guides the walk
+  private searchLayer(q: Float32Array, qNorm: number, eps: Candidate[], ef: number, level: number, accept?: (slot: number) => boolean): Candidate[] {
+    const visited = new Set(eps.map(e => e.slot)), candidates = new Heap<Candidate>(nearer), results = new Heap<Candidate>(farther);
+    for (const e of eps) { candidates.push(e); if (!accept || accept(e.slot)) results.push(e); }
+    while (results.size > ef) results.pop();
+    while (candidates.size) {
+      const c = candidates.pop()!;
+      if (results.size >= ef && c.d > results.peek()!.d) break;
+      for (const n of this.links[c.slot][level] ?? []) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+        const d = this.dist(q, qNorm, n);
+        if (results.size < ef || d < results.peek()!.d) {
+          candidates.push({ slot: n, d });
+          if (!accept || accept(n)) { results.push({ slot: n, d }); if (results.size > ef) results.pop(); }
+        }
+      }
+    }
+    const out: Candidate[] = [];
+    while (results.size) out.push(results.pop()!);
+    return out.reverse();
+  }
+
+  // Neighbour heuristic: skips a candidate that is closer to an already chosen neighbour than to the node, then tops up with the nearest
+  private select(sorted: Candidate[], max: number): number[] {
+    const chosen: Candidate[] = [];
+    for (const c of sorted) {
+      if (chosen.length >= max) break;
+      const [cv, cNorm] = this.vector(c.slot);
+      if (chosen.every(s => this.dist(cv, cNorm, s.slot) > c.d)) chosen.push(c);
+    }
+    for (const c of sorted) { if (chosen.length >= max) break; if (!chosen.includes(c)) chosen.push(c); }
+    return chosen.map(c => c.slot);
+  }
+}
+
+interface Entry<M> { id: string; metadata: M; text?: string; }
+const FORMAT = "pocketflow-vectors";
+const encode = (v: Float32Array): string => Buffer.from(v.buffer, v.byteOffset, v.byteLength).toString("base64");
+const decode = (s: string): Float32Array => { const b = Buffer.from(s, "base64"); return new Float32Array(b.buffer.slice(b.byteOffset, b.byteOffset + b.byteLength)); };
+
+// Synchronous in-memory store, so sync and async nodes can both use it; `index: "flat"` (the default) scans every vector and is
+// exact, `index: "hnsw"` answers approximately in roughly logarithmic time, for collections in the 100k+ range
+export class VectorStore<M extends Metadata = Metadata> {
+  public readonly metric: Metric;
+  public dimension: number | null;
+  private vectors: (Float32Array | null)[] = [];
+  private norms: number[] = [];
+  private entries: (Entry<M> | null)[] = [];
+  private slots = new Map<string, number>();
+  private hnsw: Hnsw | null = null;
+
+  constructor(opts: VectorStoreOptions = {}) {
+    this.metric = opts.metric ?? "cosine"; this.dimension = opts.dimension ?? null;
+    if (!["cosine", "dot", "l2"].includes(this.metric)) throw new VectorStoreError(`Unknown metric '${this.metric}'`);
+    if (opts.index && opts.index !== "flat") {
+      this.hnsw = new Hnsw(opts.index === "hnsw" ? {} : opts.index, (q, n, s) => this.distance(q, n, s), s => [this.vectors[s]!, this.norms[s]]);
+    }
+  }
+
+  get size(): number { return this.slots.size; }
+  get indexType(): "flat" | "hnsw" { return this.hnsw ? "hnsw" : "flat"; }
+  has(id: string): boolean { return this.slots.has(id); }
+  ids(): string[] { return [...this.slots.keys()]; }
+  get(id: string): VectorRecord<M> | undefined {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return undefined;
+    const { metadata, text } = this.entries[slot]!;
+    return { id, vector: Array.from(this.vectors[slot]!), metadata, ...(text !== undefined ? { text } : {}) };
+  }
+
+  // Throws on an id that is already stored; use upsert to replace
+  add(records: VectorRecord<M> | VectorRecord<M>[]): this {
+    const list = Array.isArray(records) ? records : [records], seen = new Set<string>(), dim = this.dimensionOf(list);
+    for (const r of list) {
+      if (this.slots.has(r.id) || seen.has(r.id)) throw new VectorStoreError(`Vector '${r.id}' already exists`);
+      seen.add(r.id); this.check(r, dim);
+    }
+    list.forEach(r => this.put(r));
+    return this;
+  }
+  upsert(records: VectorRecord<M> | VectorRecord<M>[]): this {
+    const list = Array.isArray(records) ? records : [records], dim = this.dimensionOf(list);
+    list.forEach(r => this.check(r, dim));
+    for (const r of list) { this.delete(r.id); this.put(r); }
+    return this;
+  }
+  // Returns how many of the ids were stored
+  delete(ids: string | string[]): number {
+    let removed = 0;
+    for (const id of Array.isArray(ids) ? ids : [ids]) {
+      const slot = this.slots.get(id);
+      if (slot === undefined) continue;
+      this.slots.delete(id); this.entries[slot] = null; removed++;
+      // The HNSW graph still routes through the deleted vector; a flat store can drop it
+      if (!this.hnsw) this.vectors[slot] = null;
+    }
+    return removed;
+  }
+
+  search(query: ArrayLike<number>, opts: SearchOptions<M> = {}): SearchHit<M>[] {
+    const k = opts.k ?? 4, filter = opts.filter, q = Float32Array.from(query), qNorm = norm(q);
+    if (this.dimension !== null && q.length !== this.dimension) throw new VectorStoreError(`Query has dimension ${q.length}, expected ${this.dimension}`);
+    const accept = (slot: number): boolean => {
+      const e = this.entries[slot];
+      return !!e && (!filter || (typeof filter === "function" ? filter(e.metadata, e.id) : matchesFilter(e.metadata, filter)));
+    };
+    let found: Candidate[];
+    if (this.hnsw) found = this.hnsw.search(q, qNorm, k, accept, this.vectors.length);
+    else {
+      const best = new Heap<Candidate>(farther);
+      this.vectors.forEach((v, slot) => {
+        if (!v || !accept(slot)) return;
+        best.push({ slot, d: this.distance(q, qNorm, slot) });
+        if (best.size > k) best.pop();
+      });
+      found = [];
+      while (best.size) found.unshift(best.pop()!);
+    }
+    return found.map(({ slot, d }) => {
+      const { id, metadata, text } = this.entries[slot]!;
+      return { id, score: this.metric === "cosine" ? 1 - d : this.metric === "dot" ? -d : Math.sqrt(d), metadata, ...(text !== undefined ? { text } : {}) };
+    });
+  }
+
+  // Writes one JSON file (vectors as base64 float32); an HNSW graph is saved too, so loading does not rebuild it
+  async save(file: string): Promise<void> {
+    const live = this.hnsw ? null : this.vectors.map((v, s) => v ? s : -1).filter(s => s >= 0);
+    const slots = live ?? this.vectors.map((_, s) => s);
+    const data = {
+      format: FORMAT, version: 1, metric: this.metric, dimension: this.dimension,
+      records: slots.map(s => ({ vector: encode(this.vectors[s]!), ...(this.entries[s] ?? { deleted: true }) })),
+      hnsw: this.hnsw && { M: this.hnsw.M, efConstruction: this.hnsw.efConstruction, efSearch: this.hnsw.efSearch, entry: this.hnsw.entry, maxLevel: this.hnsw.maxLevel, links: this.hnsw.links },
+    };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, file);
+  }
+  static async load<M extends Metadata = Metadata>(file: string): Promise<VectorStore<M>> {
+    const data = JSON.parse(await fs.readFile(file, "utf8"));
+    if (data?.format !== FORMAT) throw new VectorStoreError(`${file} is not a saved VectorStore`);
+    const { M, efConstruction, efSearch, entry, maxLevel, links } = data.hnsw ?? {};
+    const store = new VectorStore<M>({ metric: data.metric, dimension: data.dimension ?? undefined, index: data.hnsw ? { M, efConstruction, efSearch } : "flat" });
+    data.records.forEach((r: { vector: string; deleted?: boolean } & Entry<M>, slot: number) => {
+      const v = decode(r.vector);
+      store.vectors.push(v); store.norms.push(norm(v));
+      store.entries.push(r.deleted ? null : { id: r.id, metadata: r.metadata, ...(r.text !== undefined ? { text: r.text } : {}) });
+      if (!r.deleted) store.slots.set(r.id, slot);
+    });
+    if (store.hnsw) Object.assign(store.hnsw, { entry, maxLevel, links });
+    return store;
+  }
+
+  // A new store takes its dimension from the first record, so the whole batch is checked against it before anything is stored
+  private dimensionOf(list: VectorRecord<M>[]): number { return this.dimension ?? list[0]?.vector.length ?? 0; }
+  private check(r: VectorRecord<M>, dim: number): void {
+    if (typeof r.id !== "string" || !r.id) throw new VectorStoreError("Vector records need a non-empty string id");
+    if (r.vector.length !== dim || !dim) throw new VectorStoreError(`Vector '${r.id}' has dimension ${r.vector.length}, expected ${dim}`);
+    for (let i = 0; i < r.vector.length; i++) if (!Number.isFinite(r.vector[i])) throw new VectorStoreError(`Vector '${r.id}' has a non-finite value at ${i}`);
+  }
+  private put(r: VectorRecord<M>): void {
+    const v = Float32Array.from(r.vector), slot = this.vectors.length;
+    this.dimension ??= v.length;
+    this.vectors.push(v); this.norms.push(norm(v));
+    this.entries.push({ id: r.id, metadata: r.metadata ?? ({} as M), ...(r.text !== undefined ? { text: r.text } : {}) });
+    this.slots.set(r.id, slot);
+    this.hnsw?.insert(slot);
+  }
+  // Lower is closer for every metric: 1 - cosine similarity, negated dot product, squared L2 distance
+  private distance(q: Float32Array, qNorm: number, slot: number): number {
+    const v = this.vectors[slot]!;
+    let s = 0;
+    if (this.metric === "l2") { for (let i = 0; i < v.length; i++) { const d = v[i] - q[i]; s += d * d; } return s; }
+    for (let i = 0; i < v.length; i++) s += v[i] * q[i];
+    if (this.metric === "dot") return -s;
+    const n = qNorm * this.norms[slot];
+    return n ? 1 - s / n : 1;
+  }
+}
+
+const norm = (v: Float32Array): number => { let s = 0; for (let i = 0; i < v.length; i++) s += v[i] * v[i]; return Math.sqrt(s); };
+
+// Any embedding model: one vector per input text, in order
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+export interface Document<M extends Metadata = Metadata> { id?: string; text: string; metadata?: M; }
+
+export interface IndexDocumentsOptions<M extends Metadata = Metadata> {
+  store: VectorStore<M>; embed: Embedder;
+  // Where the documents (strings or Documents) are read from
+  key?: string;
+  batchSize?: number;
+}
+
+// Embeds `shared[key]` in batches and upserts it; documents without an id get a hash of their text, so indexing twice adds nothing twice
+export class IndexDocumentsNode<M extends Metadata = Metadata> extends AsyncNode<SharedStore, Document<M>[], number> {
+  constructor(public opts: IndexDocumentsOptions<M>) { super(); }
+
+  async prepAsync(shared: SharedStore): Promise<Document<M>[]> {
+    return ((shared[this.opts.key ?? "documents"] ?? []) as (string | Document<M>)[]).map(d => typeof d === "string" ? { text: d } : d);
+  }
+  async execAsync(docs: Document<M>[]): Promise<number> {
+    const size = this.opts.batchSize ?? 64;
+    for (let i = 0; i < docs.length; i += size) {
+      const batch = docs.slice(i, i + size), vectors = await this.opts.embed(batch.map(d => d.text));
+      if (vectors.length !== batch.length) throw new VectorStoreError(`Embedder returned ${vectors.length} vectors for ${batch.length} texts`);
+      this.opts.store.upsert(batch.map((d, j) => ({ id: d.id ?? stableHash(d.text).slice(0, 16), vector: vectors[j], metadata: d.metadata, text: d.text })));
+    }
+    return docs.length;
+  }
+}
+
+export interface RetrieveOptions<M extends Metadata = Metadata> {
+  store: VectorStore<M>; embed: Embedder;
+  k?: number;
+  // A fixed filter, or one built from the shared store per query
+  filter?: MetadataFilter | ((shared: SharedStore) => MetadataFilter | undefined);
+  // The query text; defaults to `shared.question`
+  query?: (shared: SharedStore) => string;
+  // Where the hits are written
+  key?: string;
+}
+
+// Embeds the query and writes the top-k SearchHits to `shared[key]` (default "retrieved")
+export class RetrieveNode<M extends Metadata = Metadata> extends AsyncNode<SharedStore, { query: string; filter?: MetadataFilter }, SearchHit<M>[]> {
+  constructor(public opts: RetrieveOptions<M>) { super(); }
+
+  async prepAsync(shared: SharedStore): Promise<{ query: string; filter?: MetadataFilter }> {
+    const f = this.opts.filter;
+    return { query: this.opts.query ? this.opts.query(shared) : String(shared.question), filter: typeof f === "function" ? f(shared) : f };
+  }
+  async execAsync({ query, filter }: { query: string; filter?: MetadataFilter }): Promise<SearchHit<M>[]> {
+    const [vector] = await this.opts.embed([query]);
+    return this.opts.store.search(vector, { k: this.opts.k, filter });
+  }
+  async postAsync(shared: SharedStore, prepRes: unknown, hits: SearchHit<M>[]): Promise<undefined> {
+    shared[this.opts.key ?? "retrieved"] = hits;
+    return undefined;
+  }
+}
@@ -0,0 +1,83 @@
+// Flow graph export - walks `successors` (nested flows become clusters) and renders Mermaid or Graphviz DOT text
+import { AnyNode, Flow } from './index';
+
+export interface VizOptions {
+  label?: (node: AnyNode) => string | undefined;
+  direction?: "TD" | "LR";
+  showDefault?: boolean;
+}
+export interface GraphNode { id: string; label: string; node: AnyNode; start: boolean; cluster?: FlowGraph; }
+export interface GraphEdge { from: string; to: string; action: string; }
+export interface FlowGraph { nodes: GraphNode[]; edges: GraphEdge[]; }
+
+// Builds the id'd node/edge structure both renderers share; each flow gets its own ids, so a node reused in two flows shows up in both
+export function flowGraph(flow: Flow<any>, opts: VizOptions = {}): FlowGraph {
+  let lastId = 0;
+  const build = (f: Flow<any>): FlowGraph => {
+    const ids = new Map<AnyNode, string>(), graph: FlowGraph = { nodes: [], edges: [] };
+    const visit = (node: AnyNode): string => {
+      let id = ids.get(node);
+      if (id) return id;
+      id = `n${++lastId}`; ids.set(node, id);
+      const entry: GraphNode = { id, label: opts.label?.(node) ?? node.constructor.name, node, start: node === f.startNode };
+      if (node instanceof Flow) entry.cluster = build(node);
+      graph.nodes.push(entry);
+      for (const [action, next] of Object.entries(node.successors)) { const edge = { from: id, to: "", action }; graph.edges.push(edge); edge.to = visit(next); }
+      return id;
+    };
+    if (f.startNode) visit(f.startNode);
+    return graph;
+  };
+  return build(flow);
+}
+
+const mermaidText = (s: string): string => s.replace(/"/g, "#quot;");
+const dotText = (s: string): string => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+// Mermaid links to a subgraph by its id, so edges can target nested flows directly
+export function toMermaid(flow: Flow<any>, opts: VizOptions = {}): string {
+  const lines = [`flowchart ${opts.direction ?? "TD"}`], starts: string[] = [];
+  const render = (g: FlowGraph, indent: string): void => {
+    for (const n of g.nodes) {
+      if (n.cluster) { lines.push(`${indent}subgraph ${n.id} ["${mermaidText(n.label)}"]`); render(n.cluster, indent + "  "); lines.push(`${indent}end`); }
+      else lines.push(`${indent}${n.id}["${mermaidText(n.label)}"]`);
+      if (n.start) starts.push(n.id);
+    }
+    for (const e of g.edges) {
+      const label = e.action === "default" && !opts.showDefault ? "" : `|"${mermaidText(e.action)}"|`;
+      lines.push(`${indent}${e.from} -->${label} ${e.to}`);
+    }
+  };
+  render(flowGraph(flow, opts), "  ");
+  if (starts.length) lines.push("  classDef start stroke-width:3px", `  class ${starts.join(",")} start`);
+  return lines.join("\n");
+}
+
+// DOT edges must join real nodes: edges touching a nested flow attach to its start node and are clipped at the cluster border
+export function toDot(flow: Flow<any>, opts: VizOptions = {}): string {
+  const lines = ["digraph Flow {", "  compound=true;", `  rankdir=${opts.direction === "LR" ? "LR" : "TB"};`, "  node [shape=box];"];
+  const anchor = new Map<string, string>();
+  const entry = (g: FlowGraph): string | undefined => g.nodes.find(n => n.start)?.id;
+  const render = (g: FlowGraph, indent: string): void => {
+    for (const n of g.nodes) {
+      if (n.cluster) {
+        lines.push(`${indent}subgraph cluster_${n.id} {`, `${indent}  label="${dotText(n.label)}";`);
+        render(n.cluster, indent + "  ");
+        const inner = entry(n.cluster);
+        if (!inner) lines.push(`${indent}  ${n.id}_empty [label="(empty)", shape=plaintext];`);
+        anchor.set(n.id, inner ? anchor.get(inner) ?? inner : `${n.id}_empty`);
+        lines.push(`${indent}}`);
+      } else lines.push(`${indent}${n.id} [label="${dotText(n.label)}"${n.start ? ", penwidth=2" : ""}];`);
+    }
+    for (const e of g.edges) {
+      const from = g.nodes.find(n => n.id === e.from)!, to = g.nodes.find(n => n.id === e.to)!, attrs: string[] = [];
+      if (e.action !== "default" || opts.showDefault) attrs.push(`label="${dotText(e.action)}"`);
+      if (from.cluster) attrs.push(`ltail=cluster_${from.id}`);
+      if (to.cluster) attrs.push(`lhead=cluster_${to.id}`);
+      lines.push(`${indent}${anchor.get(e.from) ?? e.from} -> ${anchor.get(e.to) ?? e.to}${attrs.length ? ` [${attrs.join(", ")}]` : ""};`);
+    }
+  };
+  render(flowGraph(flow, opts), "  ");
+  lines.push("}");
+  return lines.join("\n");
+}
@@ -0,0 +1,98 @@
+import { AsyncFlow, AsyncNode, SharedStore, chain } from '../src/index';
+import { FakeLLMClient, ChatMessage } from '../src/llm';
+import { Agent, ToolRegistry, defineTool, ToolInputError, AgentState } from '../src/agent';
+
+const search = defineTool<{ query: string }, string[]>({
+  name: 'search_web',
+  description: 'Search the web',
+  inputSchema: { type: 'object', required: ['query'], properties: { query: { type: 'string' } } },
+  handler: async ({ query }) => [`${query}: result`],
+});
+
+const remember = defineTool<{ fact: string }>({
+  name: 'remember',
+  description: 'Store a fact in shared memory',
+  inputSchema: { type: 'object', required: ['fact'], properties: { fact: { type: 'string' } } },
+  handler: async ({ fact }, { shared }) => { (shared.facts ??= []).push(fact); return 'ok'; },
+});
+
+const call = (id: string, name: string, args: Record<string, unknown>) => ({ toolCalls: [{ id, name, arguments: args }] });
+
+describe('ToolRegistry', () => {
+  it('should validate tool input against its schema', async () => {
+    const registry = new ToolRegistry([search]);
+
+    await expect(registry.call('search_web', { query: 'x' }, { shared: {} })).resolves.toEqual(['x: result']);
+    await expect(registry.call('search_web', { q: 'x' }, { shared: {} })).rejects.toThrow(ToolInputError);
+    await expect(registry.call('nope', {}, { shared: {} })).rejects.toThrow("Unknown tool 'nope'; available: search_web");
+    expect(() => registry.register(search)).toThrow("Tool 'search_web' is already registered");
+    expect(registry.specs()[0]).toEqual({ name: 'search_web', description: 'Search the web', parameters: search.inputSchema });
+  });
+});
+
+describe('Agent', () => {
+  it('should loop through tool calls until the model answers', async () => {
+    const llm = new FakeLLMClient([
+      call('c1', 'search_web', { query: 'nobel 2024' }),
+      call('c2', 'remember', { fact: 'Hopfield and Hinton' }),
+      'Hopfield and Hinton won.',
+    ]);
+    const shared: SharedStore = { question: 'Who won the Nobel Prize in Physics 2024?' };
+
+    await new Agent({ llm, tools: [search, remember], system: 'Use tools.' }).runAsync(shared);
+
+    const state: AgentState = shared.agent;
+    expect(state.answer).toBe('Hopfield and Hinton won.');
+    expect(state.iterations).toBe(2);
+    expect(state.steps).toEqual([
+      { tool: 'search_web', input: { query: 'nobel 2024' }, output: ['nobel 2024: result'] },
+      { tool: 'remember', input: { fact: 'Hopfield and Hinton' }, output: 'ok' },
+    ]);
+    expect(shared.facts).toEqual(['Hopfield and Hinton']);
+    expect(llm.requests[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'search_web', arguments: { query: 'nobel 2024' } }] },
+      { role: 'tool', toolCallId: 'c1', content: '["nobel 2024: result"]' },
+    ]);
+    expect(llm.requests[0].opts.tools?.map(t => t.name)).toEqual(['search_web', 'remember']);
+  });
+
+  it('should report tool errors back to the model', async () => {
+    const llm = new FakeLLMClient([call('c1', 'search_web', { q: 'wrong' }), 'Sorry, search failed.']);
+    const shared: SharedStore = { question: 'Q' };
+
+    await new Agent({ llm, tools: [search] }).runAsync(shared);
+
+    expect(shared.agent.steps[0].error).toBe("Invalid input for tool 'search_web': /query is required");
+    expect((llm.requests[1].messages.slice(-1)[0] as ChatMessage).content).toBe("Error: Invalid input for tool 'search_web': /query is required");
+  });
+
+  it('should force an answer after maxIterations', async () => {
+    const llm = new FakeLLMClient([call('c1', 'search_web', { query: 'a' }), call('c2', 'search_web', { query: 'b' }), 'Best guess.']);
+    const shared: SharedStore = { question: 'Q' };
+
+    await new Agent({ llm, tools: [search], maxIterations: 2 }).runAsync(shared);
+
+    expect(shared.agent.answer).toBe('Best guess.');
+    expect(llm.requests[2].opts.tools).toEqual([]);
+    expect(llm.requests[2].messages.slice(-1)[0].content).toContain('used all your tool calls');
+  });
+
+  it('should embed in a larger flow', async () => {
+    class Publish extends AsyncNode {
+      async prepAsync(shared: SharedStore): Promise<string> {
+        return shared.research.answer;
+      }
+      async postAsync(shared: SharedStore, answer: string): Promise<undefined> {
+        shared.published = answer.toUpperCase();
+        return undefined;
+      }
+    }
+    const agent = new Agent({ llm: new FakeLLMClient(['done']), tools: [search], key: 'research', question: s => s.topic });
+    const shared: SharedStore = { topic: 'bees' };
+
+    await new AsyncFlow(chain(agent, new Publish())).runAsync(shared);
+
+    expect(shared.published).toBe('DONE');
+    expect(shared.research.messages[0]).toEqual({ role: 'user', content: 'bees' });
+  });
+});
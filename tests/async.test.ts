@@ -0,0 +1,589 @@
+import { AsyncNode, AsyncFlow, AsyncBatchNode, AsyncParallelBatchNode, AsyncParallelBatchFlow, AsyncStreamNode, FlowEvent, AbortError, TimeoutError, RetryPolicy, SharedStore, Params, chain, Node, BatchFlow, ScopeConflictError } from '../src/index';
+
+const hang = (signal?: AbortSignal): Promise<never> => new Promise((_, reject) => {
+  signal?.addEventListener('abort', () => reject(signal.reason));
+});
+
+class Step extends AsyncNode {
+  async execAsync(): Promise<void> {}
+
+  async postAsync(shared: SharedStore): Promise<string> {
+    shared.steps = (shared.steps || 0) + 1;
+    return 'default';
+  }
+}
+
+describe('Async execution', () => {
+  describe('Cancellation', () => {
+    it('should stop the flow between nodes once aborted', async () => {
+      const controller = new AbortController();
+      class AbortingStep extends Step {
+        async postAsync(shared: SharedStore): Promise<string> {
+          controller.abort();
+          return super.postAsync(shared);
+        }
+      }
+      const shared: SharedStore = {};
+      const flow = new AsyncFlow(chain(new Step(), new AbortingStep(), new Step()));
+
+      await expect(flow.runAsync(shared, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+      expect(shared.steps).toBe(2);
+    });
+
+    it('should expose the signal to nodes', async () => {
+      const controller = new AbortController();
+      let seen: AbortSignal | undefined;
+      class SignalReader extends AsyncNode {
+        async prepAsync(): Promise<void> {
+          seen = this.signal;
+        }
+      }
+
+      await new AsyncFlow(new AsyncFlow(new SignalReader())).runAsync({}, { signal: controller.signal });
+
+      expect(seen).toBe(controller.signal);
+    });
+
+    it('should cut a pending retry wait short without calling the fallback', async () => {
+      const controller = new AbortController();
+      const fallback = jest.fn();
+      class Failing extends AsyncNode {
+        async execAsync(): Promise<void> {
+          setTimeout(() => controller.abort(new Error('client went away')), 10);
+          throw new Error('boom');
+        }
+
+        async execFallbackAsync(): Promise<void> {
+          fallback();
+        }
+      }
+      const started = Date.now();
+
+      const run = new Failing(3, 60).runAsync({}, { signal: controller.signal });
+
+      await expect(run).rejects.toThrow('Run aborted: client went away');
+      expect(Date.now() - started).toBeLessThan(5000);
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should stop parallel batch branches', async () => {
+      const controller = new AbortController();
+      class Items extends AsyncParallelBatchFlow {
+        async prepAsync(): Promise<Params[]> {
+          return [{ i: 1 }, { i: 2 }];
+        }
+      }
+      class Slow extends AsyncNode {
+        async execAsync(): Promise<void> {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+      }
+      const shared: SharedStore = {};
+      const flow = new Items(chain(new Slow(), new Step()));
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(flow.runAsync(shared, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+      expect(shared.steps).toBeUndefined();
+    });
+  });
+
+  describe('Timeouts', () => {
+    it('should retry a timed-out attempt', async () => {
+      class HangsOnce extends AsyncNode {
+        private calls = 0;
+
+        async execAsync(): Promise<string> {
+          return ++this.calls === 1 ? hang() : 'answer';
+        }
+
+        async postAsync(shared: SharedStore, prepRes: unknown, execRes: string): Promise<undefined> {
+          shared.answer = execRes;
+          return undefined;
+        }
+      }
+      const shared: SharedStore = {};
+
+      await new HangsOnce(2, 0, 0, 0.02).runAsync(shared);
+
+      expect(shared.answer).toBe('answer');
+    });
+
+    it('should abort the signal of an abandoned attempt', async () => {
+      const seen: { attempt: number; aborted: boolean }[] = [];
+      class SlowOnce extends AsyncNode {
+        private calls = 0;
+
+        async execAsync(): Promise<string> {
+          const attempt = ++this.calls, signal = this.signal!;
+          await new Promise(resolve => setTimeout(resolve, attempt === 1 ? 40 : 1));
+          seen.push({ attempt, aborted: signal.aborted });
+          return 'answer';
+        }
+      }
+
+      await new SlowOnce(2, 0, 0, 0.01).runAsync({});
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(seen).toEqual([{ attempt: 2, aborted: false }, { attempt: 1, aborted: true }]);
+    });
+
+    it('should stop waiting for an attempt as soon as the run is aborted', async () => {
+      const ctrl = new AbortController();
+      class Ignores extends AsyncNode {
+        async execAsync(): Promise<void> {
+          await new Promise(resolve => setTimeout(resolve, 200));
+        }
+      }
+      const started = Date.now();
+      setTimeout(() => ctrl.abort(), 10);
+
+      await expect(new Ignores(1, 0, 0, 1).runAsync({}, { signal: ctrl.signal })).rejects.toBeInstanceOf(AbortError);
+      expect(Date.now() - started).toBeLessThan(150);
+    });
+
+    it('should keep the attempt signal of each parallel item apart', async () => {
+      const seen: string[] = [];
+      class Waits extends AsyncParallelBatchNode<SharedStore, number, string> {
+        async prepAsync(): Promise<number[]> {
+          return [10, 50, 200];
+        }
+
+        async execAsync(ms: number): Promise<string> {
+          const signal = this.signal!;
+          await new Promise(resolve => setTimeout(resolve, ms));
+          seen.push(`${ms} own=${this.signal === signal} aborted=${signal.aborted}`);
+          return 'done';
+        }
+
+        async execFallbackAsync(): Promise<string> {
+          return 'gave up';
+        }
+
+        async postAsync(shared: SharedStore, items: number[], results: string[]): Promise<undefined> {
+          shared.results = results;
+          return undefined;
+        }
+      }
+      const shared: SharedStore = {};
+
+      await new Waits(1, 0, 0, 0.1).runAsync(shared);
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      expect(shared.results).toEqual(['done', 'done', 'gave up']);
+      expect(seen).toEqual(['10 own=true aborted=false', '50 own=true aborted=false', '200 own=true aborted=true']);
+    });
+
+    it('should give postAsync the run signal after timed attempts', async () => {
+      const ctrl = new AbortController();
+      let postSignal: AbortSignal | undefined;
+      class Timed extends AsyncNode {
+        async execAsync(): Promise<string> {
+          return 'answer';
+        }
+
+        async postAsync(): Promise<undefined> {
+          postSignal = this.signal;
+          return undefined;
+        }
+      }
+
+      await new Timed(1, 0, 1, 1).runAsync({}, { signal: ctrl.signal });
+
+      expect(postSignal).toBe(ctrl.signal);
+    });
+
+    it('should hand a TimeoutError to the fallback once attempts run out', async () => {
+      let received: unknown;
+      class AlwaysHangs extends AsyncNode {
+        async execAsync(): Promise<string> {
+          return hang();
+        }
+
+        async execFallbackAsync(prepRes: unknown, exc: Error): Promise<string> {
+          received = exc;
+          return 'fallback';
+        }
+      }
+
+      await new AlwaysHangs(2, 0, 0, 0.01).runAsync({});
+
+      expect(received).toBeInstanceOf(TimeoutError);
+      expect((received as TimeoutError).message).toBe('AlwaysHangs attempt 2 timed out after 0.01s');
+    });
+
+    it('should bound all retries and the fallback with the node timeout', async () => {
+      const fallback = jest.fn();
+      class Failing extends AsyncNode {
+        async execAsync(): Promise<void> {
+          throw new Error('boom');
+        }
+
+        async execFallbackAsync(): Promise<void> {
+          fallback();
+        }
+      }
+
+      const run = new Failing(5, 10, 0.02).runAsync({});
+
+      await expect(run).rejects.toThrow(new TimeoutError('Failing timed out after 0.02s', 0.02));
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should stop a flow run at its deadline and abort the running node', async () => {
+      let reason: unknown;
+      class Hung extends AsyncNode {
+        async execAsync(): Promise<void> {
+          try {
+            await hang(this.signal);
+          } catch (e) {
+            reason = e;
+          }
+        }
+      }
+      const flow = new AsyncFlow(chain(new Hung(), new Step()));
+      const shared: SharedStore = {};
+
+      await expect(flow.runAsync(shared, { timeout: 0.02 })).rejects.toBeInstanceOf(TimeoutError);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(reason).toBeInstanceOf(TimeoutError);
+      expect(shared.steps).toBeUndefined();
+    });
+  });
+
+  describe('Retry policies', () => {
+    it('should back off using the hint on a rate-limit error', async () => {
+      const delays: number[] = [];
+      class RateLimited extends AsyncNode {
+        private calls = 0;
+
+        async execAsync(): Promise<string> {
+          if (++this.calls === 1) throw Object.assign(new Error('429'), { headers: { 'retry-after-ms': '20' } });
+          return 'ok';
+        }
+      }
+      const node = new RateLimited(RetryPolicy.exponential({ maxAttempts: 3, wait: 0.001 }));
+      node.use({ onRetry: e => delays.push(e.delayMs) });
+
+      await node.runAsync({});
+
+      expect(delays).toEqual([20]);
+    });
+
+    it('should count attempts per item when parallel batch items retry', async () => {
+      const calls = new Map<number, number>(), attempts: number[] = [];
+      class FailsTwice extends AsyncParallelBatchNode<SharedStore, number, string> {
+        async prepAsync(): Promise<number[]> {
+          return [1, 2, 3, 4];
+        }
+
+        async execAsync(item: number): Promise<string> {
+          calls.set(item, (calls.get(item) ?? 0) + 1);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          if (calls.get(item)! < 3) throw new Error(`item ${item} failed`);
+          return `item ${item}`;
+        }
+
+        async execFallbackAsync(item: number): Promise<string> {
+          return `fallback ${item}`;
+        }
+
+        async postAsync(shared: SharedStore, items: number[], results: string[]): Promise<undefined> {
+          shared.results = results;
+          return undefined;
+        }
+      }
+      const node = new FailsTwice(3, 0.01);
+      node.use({ onRetry: e => attempts.push(e.attempt) });
+      const shared: SharedStore = {};
+
+      await node.runAsync(shared);
+
+      expect(shared.results).toEqual(['item 1', 'item 2', 'item 3', 'item 4']);
+      expect([...calls.values()]).toEqual([3, 3, 3, 3]);
+      expect(attempts.sort()).toEqual([1, 1, 1, 1, 2, 2, 2, 2]);
+    });
+  });
+
+  describe('Batch concurrency', () => {
+    const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+    class Tracker {
+      active = 0;
+      peak = 0;
+
+      async run<T>(fn: () => Promise<T>): Promise<T> {
+        this.peak = Math.max(this.peak, ++this.active);
+        try {
+          return await fn();
+        } finally {
+          this.active--;
+        }
+      }
+    }
+
+    it('should run AsyncBatchNode items one at a time', async () => {
+      const tracker = new Tracker();
+      class Sequential extends AsyncBatchNode {
+        async prepAsync(): Promise<number[]> {
+          return [1, 2, 3];
+        }
+
+        async execAsync(item: number): Promise<number> {
+          return tracker.run(async () => { await delay(5); return item * 2; });
+        }
+
+        async postAsync(shared: SharedStore, prepRes: number[], execRes: number[]): Promise<undefined> {
+          shared.results = execRes;
+          return undefined;
+        }
+      }
+      const shared: SharedStore = {};
+
+      await new Sequential().runAsync(shared);
+
+      expect(shared.results).toEqual([2, 4, 6]);
+      expect(tracker.peak).toBe(1);
+    });
+
+    it('should cap in-flight items and keep input order by default', async () => {
+      const tracker = new Tracker();
+      class Limited extends AsyncParallelBatchNode {
+        async prepAsync(): Promise<number[]> {
+          return [60, 5, 20, 1, 10];
+        }
+
+        async execAsync(ms: number): Promise<number> {
+          return tracker.run(async () => { await delay(ms); return ms; });
+        }
+
+        async postAsync(shared: SharedStore, prepRes: number[], execRes: number[]): Promise<undefined> {
+          shared.results = execRes;
+          return undefined;
+        }
+      }
+      const node = new Limited();
+      node.concurrency = 2;
+      const shared: SharedStore = {};
+
+      await node.runAsync(shared);
+      expect(tracker.peak).toBe(2);
+      expect(shared.results).toEqual([60, 5, 20, 1, 10]);
+
+      node.ordered = false;
+      await node.runAsync(shared);
+      expect(shared.results).toEqual([5, 20, 1, 10, 60]);
+    });
+
+    it('should cap concurrent AsyncParallelBatchFlow branches', async () => {
+      const tracker = new Tracker();
+      class Work extends AsyncNode {
+        async execAsync(): Promise<void> {
+          await tracker.run(() => delay(5));
+        }
+      }
+      class Items extends AsyncParallelBatchFlow {
+        async prepAsync(): Promise<Params[]> {
+          return [1, 2, 3, 4, 5].map(i => ({ i }));
+        }
+      }
+      const flow = new Items(chain(new Work(), new Step()));
+      flow.concurrency = 3;
+      const shared: SharedStore = {};
+
+      await flow.runAsync(shared);
+
+      expect(tracker.peak).toBe(3);
+      expect(shared.steps).toBe(5);
+    });
+  });
+
+  describe('Streaming', () => {
+    class Answer extends AsyncStreamNode<SharedStore, string, string> {
+      async prepAsync(shared: SharedStore): Promise<string> {
+        return shared.question;
+      }
+
+      async *execStream(question: string): AsyncIterable<string> {
+        for (const token of ['Hi', ' ', question]) {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          yield token;
+        }
+      }
+
+      async postAsync(shared: SharedStore, prepRes: string, chunks: string[]): Promise<string> {
+        shared.answer = chunks.join('');
+        return 'done';
+      }
+    }
+
+    const describeEvent = (e: FlowEvent): string => {
+      switch (e.type) {
+        case 'chunk': return `chunk ${e.index} ${e.chunk}`;
+        case 'transition': return `transition ${e.action}`;
+        case 'done': return `done ${e.action}`;
+        default: return `${e.type} ${e.node.constructor.name}`;
+      }
+    };
+
+    it('should collect streamed chunks for postAsync', async () => {
+      const shared: SharedStore = { question: 'there' };
+
+      expect(await new Answer().runAsync(shared)).toBe('done');
+      expect(shared.answer).toBe('Hi there');
+    });
+
+    it('should yield flow events while the flow runs', async () => {
+      const answer = new Answer();
+      answer.onAction('done').connectTo(new Step());
+      const events: string[] = [];
+
+      for await (const e of new AsyncFlow(answer).stream({ question: 'you' })) events.push(describeEvent(e));
+
+      expect(events).toEqual([
+        'nodeStart Answer', 'chunk 0 Hi', 'chunk 1  ', 'chunk 2 you', 'nodeEnd Answer', 'transition done',
+        'nodeStart Step', 'nodeEnd Step', 'transition default', 'done default',
+      ]);
+    });
+
+    it('should restart chunk indices on retry', async () => {
+      class Flaky extends AsyncStreamNode {
+        async *execStream(): AsyncIterable<number> {
+          yield 1;
+          if (this.curRetry === 0) throw new Error('dropped');
+          yield 2;
+        }
+      }
+      const chunks: string[] = [];
+
+      for await (const e of new AsyncFlow(new Flaky(2)).stream({})) if (e.type === 'chunk') chunks.push(`${e.attempt}:${e.index}`);
+
+      expect(chunks).toEqual(['1:0', '2:0', '2:1']);
+    });
+
+    it('should rethrow the run error after the events before it', async () => {
+      class Broken extends AsyncNode {
+        async execAsync(): Promise<void> {
+          throw new Error('boom');
+        }
+      }
+      const events: string[] = [];
+
+      await expect((async () => {
+        for await (const e of new AsyncFlow(new Broken()).stream({})) events.push(describeEvent(e));
+      })()).rejects.toThrow('boom');
+      expect(events).toEqual(['nodeStart Broken', 'nodeEnd Broken']);
+    });
+
+    it('should abort the run when the consumer stops early', async () => {
+      const shared: SharedStore = { question: 'x' };
+      const flow = new AsyncFlow(chain(new Answer(), new Step()));
+
+      for await (const e of flow.stream(shared)) if (e.type === 'chunk') break;
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(shared.answer).toBeUndefined();
+      expect(shared.steps).toBeUndefined();
+      expect(flow.hooks).toEqual([]);
+    });
+  });
+
+  describe('Shared-store scopes', () => {
+    const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+    // Writes a draft, waits (longer for earlier files, so branches interleave) and then the summary
+    class Summarize extends AsyncNode {
+      async prepAsync(shared: SharedStore): Promise<string> {
+        shared.draft = `draft of ${this.params.file}`;
+        return this.params.file;
+      }
+      async execAsync(file: string): Promise<string> {
+        await delay(file === 'a' ? 15 : 5);
+        return `summary of ${file}`;
+      }
+      async postAsync(shared: SharedStore, file: string, summary: string): Promise<undefined> {
+        shared.summary = summary;
+        shared.seen = [...(shared.seen ?? []), file];
+        return undefined;
+      }
+    }
+    class Files extends AsyncParallelBatchFlow {
+      async prepAsync(): Promise<Params[]> {
+        return ['a', 'b', 'c'].map(file => ({ file }));
+      }
+    }
+
+    it('should isolate parallel branches and merge their outputs', async () => {
+      const flow = new Files(new Summarize());
+      flow.scope = { inputs: ['seen'], outputs: { summary: 'summaries', seen: 'seen' }, merge: { summaries: 'append', seen: (all = [], mine) => [...all, ...mine] } };
+      const shared: SharedStore = { seen: ['z'] };
+
+      await flow.runAsync(shared);
+
+      expect(shared.summaries).toEqual(['summary of b', 'summary of c', 'summary of a']);
+      expect(shared.seen).toEqual(['z', 'z', 'b', 'z', 'c', 'z', 'a']);
+      expect(shared.draft).toBeUndefined();
+    });
+
+    it('should write each branch into its own namespace', async () => {
+      const flow = new Files(new Summarize());
+      flow.scope = { inputs: [], outputs: ['summary'], namespace: p => `file:${p.file}` };
+      const shared: SharedStore = {};
+
+      await flow.runAsync(shared);
+
+      expect(shared).toEqual({ 'file:a': { summary: 'summary of a' }, 'file:b': { summary: 'summary of b' }, 'file:c': { summary: 'summary of c' } });
+    });
+
+    it('should reject conflicting writes unless a merge strategy allows them', async () => {
+      const flow = new Files(new Summarize());
+      flow.scope = { outputs: ['summary'] };
+
+      await expect(flow.runAsync({})).rejects.toThrow(new ScopeConflictError(`Files: conflicting writes to 'summary'; set scope.merge to "replace", "append" or a reducer`, 'summary'));
+
+      flow.scope.merge = 'replace';
+      const shared: SharedStore = {};
+      await flow.runAsync(shared);
+      expect(shared.summary).toBe('summary of a');
+    });
+
+    it('should map the inputs and outputs of a nested sub-flow', async () => {
+      class Count extends AsyncNode {
+        async prepAsync(shared: SharedStore): Promise<string[]> {
+          shared.text.push('(read)');
+          return shared.text;
+        }
+        async postAsync(shared: SharedStore, words: string[]): Promise<undefined> {
+          shared.count = words.length;
+          return undefined;
+        }
+      }
+      const counter = new AsyncFlow(new Count());
+      counter.scope = { inputs: { text: 'words' }, outputs: { count: 'total' }, merge: (total = 0, count) => total + count };
+      const shared: SharedStore = { words: ['a', 'b'], total: 10 };
+
+      await new AsyncFlow(chain(counter, new Step())).runAsync(shared);
+
+      expect(shared).toEqual({ words: ['a', 'b'], total: 13, steps: 1 });
+    });
+
+    it('should scope the branches of a sync BatchFlow', () => {
+      class Square extends Node {
+        post(shared: SharedStore): undefined {
+          shared.result = this.params.n ** 2;
+          return undefined;
+        }
+      }
+      class Numbers extends BatchFlow {
+        prep(): Params[] {
+          return [1, 2, 3].map(n => ({ n }));
+        }
+      }
+      const flow = new Numbers(new Square());
+      flow.scope = { inputs: [], outputs: { result: 'squares' }, merge: 'append' };
+      const shared: SharedStore = {};
+
+      flow.run(shared);
+
+      expect(shared).toEqual({ squares: [1, 4, 9] });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { Node, AsyncBatchNode, BatchNode, SharedStore } from '../src/index';
+import { ResultCache, MemoryCacheStore, FileCacheStore, stableHash } from '../src/cache';
+
+class Embed extends Node {
+  static calls = 0;
+
+  prep(shared: SharedStore): unknown {
+    return shared.input;
+  }
+
+  exec(input: { text: string }): string {
+    Embed.calls++;
+    return `vec(${input.text})`;
+  }
+
+  post(shared: SharedStore, prepRes: unknown, execRes: string): undefined {
+    shared.output = execRes;
+    return undefined;
+  }
+}
+
+describe('Exec result caching', () => {
+  beforeEach(() => { Embed.calls = 0; });
+
+  it('should hash inputs independently of key order', () => {
+    expect(stableHash({ a: 1, b: [1, { c: 2, d: 3 }] })).toBe(stableHash({ b: [1, { d: 3, c: 2 }], a: 1 }));
+    expect(stableHash({ a: 1 })).not.toBe(stableHash({ a: '1' }));
+  });
+
+  it('should skip exec for inputs it has seen', () => {
+    const node = new Embed();
+    node.cache = new ResultCache();
+
+    node.run({ input: { text: 'hi', lang: 'en' } });
+    const shared: SharedStore = { input: { lang: 'en', text: 'hi' } };
+    node.run(shared);
+    node.run({ input: { text: 'other' } });
+
+    expect(Embed.calls).toBe(2);
+    expect(shared.output).toBe('vec(hi)');
+  });
+
+  it('should key by node params and version tags', () => {
+    const cache = new ResultCache();
+    const node = new Embed();
+    node.cache = cache;
+    node.run({ input: { text: 'hi' } });
+
+    node.setParams({ model: 'large' });
+    node.run({ input: { text: 'hi' } });
+    cache.opts.version = 'v2';
+    node.run({ input: { text: 'hi' } });
+    class EmbedV2 extends Embed { static cacheVersion = '2'; }
+    const v2 = new EmbedV2();
+    v2.cache = cache;
+    v2.setParams({ model: 'large' });
+    v2.run({ input: { text: 'hi' } });
+
+    expect(Embed.calls).toBe(4);
+  });
+
+  it('should expire entries after the ttl', () => {
+    let now = 1000;
+    const spy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    try {
+      const node = new Embed();
+      node.cache = new ResultCache(new MemoryCacheStore(), { ttl: 60 });
+
+      node.run({ input: { text: 'hi' } });
+      now += 59_000;
+      node.run({ input: { text: 'hi' } });
+      now += 2_000;
+      node.run({ input: { text: 'hi' } });
+
+      expect(Embed.calls).toBe(2);
+    } finally { spy.mockRestore(); }
+  });
+
+  it('should bypass the cache per call', () => {
+    const node = new Embed();
+    node.cache = new ResultCache(new MemoryCacheStore(), { bypass: (input) => (input as { fresh?: boolean }).fresh === true });
+
+    node.run({ input: { text: 'hi', fresh: true } });
+    node.run({ input: { text: 'hi', fresh: true } });
+
+    expect(Embed.calls).toBe(2);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', { value: 1, expiresAt: null });
+    store.set('b', { value: 2, expiresAt: null });
+    store.get('a');
+    store.set('c', { value: 3, expiresAt: null });
+
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('a')?.value).toBe(1);
+    expect(store.size).toBe(2);
+  });
+
+  it('should not cache fallback results', () => {
+    let down = true;
+    class Flaky extends Embed {
+      exec(input: { text: string }): string {
+        if (down) throw new Error('down');
+        return super.exec(input);
+      }
+      execFallback(): string {
+        return 'fallback';
+      }
+    }
+    const node = new Flaky();
+    node.cache = new ResultCache();
+    const shared: SharedStore = { input: { text: 'hi' } };
+
+    node.run(shared);
+    expect(shared.output).toBe('fallback');
+    down = false;
+    node.run(shared);
+    node.run(shared);
+
+    expect(shared.output).toBe('vec(hi)');
+    expect(Embed.calls).toBe(1);
+  });
+
+  it('should cache batch items individually so a failed batch only redoes what failed', async () => {
+    const calls: number[] = [];
+    let failOn: number | null = 3;
+    class Square extends AsyncBatchNode<SharedStore, number, number> {
+      async prepAsync(): Promise<number[]> {
+        return [1, 2, 3, 4];
+      }
+      async execAsync(n: number): Promise<number> {
+        calls.push(n);
+        if (n === failOn) throw new Error(`failed on ${n}`);
+        return n * n;
+      }
+      async postAsync(shared: SharedStore, prepRes: number[], execRes: number[]): Promise<undefined> {
+        shared.squares = execRes;
+        return undefined;
+      }
+    }
+    const node = new Square();
+    node.cache = new ResultCache();
+    const shared: SharedStore = {};
+
+    await expect(node.runAsync(shared)).rejects.toThrow('failed on 3');
+    failOn = null;
+    await node.runAsync(shared);
+
+    expect(shared.squares).toEqual([1, 4, 9, 16]);
+    expect(calls).toEqual([1, 2, 3, 3, 4]);
+  });
+
+  it('should persist entries in a file store', async () => {
+    const dir = path.join(os.tmpdir(), `pocketflow-cache-${process.pid}-${Date.now()}`);
+    class Upper extends BatchNode<SharedStore, string, string> {
+      prep(): string[] {
+        return ['a', 'b'];
+      }
+      exec(item: string): string {
+        Embed.calls++;
+        return item.toUpperCase();
+      }
+    }
+    try {
+      const first = new Upper();
+      first.cache = new ResultCache(new FileCacheStore(dir));
+      first.run({});
+      const second = new Upper();
+      second.cache = new ResultCache(new FileCacheStore(dir));
+      second.run({});
+
+      expect(Embed.calls).toBe(2);
+      new FileCacheStore(dir).clear();
+      second.run({});
+      expect(Embed.calls).toBe(4);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { AsyncNode, AsyncFlow, AsyncBatchFlow, AsyncParallelBatchFlow, SharedStore, Params, ScopeOptions, chain } from '../src/index';
+import { MemoryCheckpointStore, FileCheckpointStore } from '../src/checkpoint';
+
+// Records its visit and crashes while `crashAt` names it
+let crashAt: string | null = null;
+
+class Visit extends AsyncNode {
+  constructor(private label: string) {
+    super();
+  }
+
+  async execAsync(): Promise<void> {
+    const label = this.params.item === undefined ? this.label : `${this.label}:${this.params.item}`;
+    if (crashAt === label) throw new Error(`crash in ${label}`);
+  }
+
+  async postAsync(shared: SharedStore): Promise<string> {
+    const label = this.params.item === undefined ? this.label : `${this.label}:${this.params.item}`;
+    shared.visits = [...(shared.visits || []), label];
+    return 'default';
+  }
+}
+
+class Items extends AsyncBatchFlow {
+  async prepAsync(shared: SharedStore): Promise<Params[]> {
+    return shared.items.map((item: string) => ({ item }));
+  }
+}
+
+class ParallelItems extends AsyncParallelBatchFlow {
+  scope: ScopeOptions | null = { inputs: ['items'], outputs: ['visits', 'n'], merge: { visits: (all: string[] = [], visits: string[]) => [...all, ...visits], n: (total = 0, n: number) => total + n } };
+
+  async prepAsync(shared: SharedStore): Promise<Params[]> {
+    return shared.items.map((item: string) => ({ item }));
+  }
+}
+
+class Count extends AsyncNode {
+  async postAsync(shared: SharedStore): Promise<string> {
+    shared.n = (shared.n || 0) + 1;
+    return 'default';
+  }
+}
+
+describe('Checkpoint and resume', () => {
+  afterEach(() => {
+    crashAt = null;
+  });
+
+  it('should resume after the last completed node', async () => {
+    const store = new MemoryCheckpointStore();
+    const flow = new AsyncFlow(chain(new Visit('a'), new Visit('b'), new Visit('c')));
+    const opts = { checkpoint: { store, id: 'run-1' } };
+    crashAt = 'c';
+
+    await expect(flow.runAsync({}, opts)).rejects.toThrow('crash in c');
+    const saved = await store.load('run-1');
+    expect(saved!.shared.visits).toEqual(['a', 'b']);
+    expect(saved!.frames).toEqual([{ node: 2, name: 'Visit', params: {} }]);
+
+    crashAt = null;
+    const shared: SharedStore = {};
+    await flow.resumeAsync(shared, opts);
+
+    expect(shared.visits).toEqual(['a', 'b', 'c']);
+    expect(store.ids()).toEqual([]);
+  });
+
+  it('should resume inside nested flows', async () => {
+    const store = new MemoryCheckpointStore();
+    const inner = new AsyncFlow(chain(new Visit('x'), new Visit('y')));
+    const flow = new AsyncFlow(chain(new Visit('a'), inner, new Visit('b')));
+    const opts = { checkpoint: { store, id: 'nested' } };
+    crashAt = 'y';
+
+    await expect(flow.runAsync({}, opts)).rejects.toThrow('crash in y');
+    expect((await store.load('nested'))!.frames.map(f => f.node)).toEqual([1, 1]);
+
+    crashAt = null;
+    const shared: SharedStore = {};
+    await flow.resumeAsync(shared, opts);
+
+    expect(shared.visits).toEqual(['a', 'x', 'y', 'b']);
+  });
+
+  it('should skip finished batch items on resume', async () => {
+    const store = new MemoryCheckpointStore();
+    const flow = new AsyncFlow(new Items(chain(new Visit('p'), new Visit('q'))));
+    const opts = { checkpoint: { store, id: 'batch' } };
+    crashAt = 'q:2';
+
+    await expect(flow.runAsync({ items: ['1', '2', '3'] }, opts)).rejects.toThrow('crash in q:2');
+    expect((await store.load('batch'))!.frames[1]).toMatchObject({ node: 1, batch: 1, params: { item: '2' } });
+
+    crashAt = null;
+    const shared: SharedStore = {};
+    await flow.resumeAsync(shared, opts);
+
+    expect(shared.visits).toEqual(['p:1', 'q:1', 'p:2', 'q:2', 'p:3', 'q:3']);
+  });
+
+  it('should rerun only unfinished parallel batch items', async () => {
+    const store = new MemoryCheckpointStore();
+    const flow = new ParallelItems(new Visit('p'));
+    const opts = { checkpoint: { store, id: 'parallel' } };
+    crashAt = 'p:2';
+
+    await expect(flow.runAsync({ items: ['1', '2', '3'] }, opts)).rejects.toThrow('crash in p:2');
+    expect((await store.load('parallel'))!.frames[0].done).toEqual([0, 2]);
+
+    crashAt = null;
+    const shared: SharedStore = {};
+    await flow.resumeAsync(shared, opts);
+
+    expect(shared.visits).toEqual(['p:1', 'p:3', 'p:2']);
+  });
+
+  it('should not save the partial writes of unfinished parallel branches', async () => {
+    const store = new MemoryCheckpointStore();
+    const flow = new ParallelItems(chain(new Count(), new Visit('p')));
+    const opts = { checkpoint: { store, id: 'partial' } };
+    crashAt = 'p:1';
+
+    await expect(flow.runAsync({ items: ['1', '2', '3'] }, opts)).rejects.toThrow('crash in p:1');
+    expect((await store.load('partial'))!.shared.n).toBe(2);
+
+    crashAt = null;
+    const shared: SharedStore = {};
+    await flow.resumeAsync(shared, opts);
+
+    expect(shared.n).toBe(3);
+  });
+
+  it('should refuse to checkpoint a parallel batch flow without a scope', async () => {
+    const flow = new ParallelItems(new Visit('p'));
+    flow.scope = null;
+
+    await expect(flow.runAsync({ items: ['1'] }, { checkpoint: { store: new MemoryCheckpointStore(), id: 'unscoped' } })).rejects.toThrow('needs a scope');
+  });
+
+  it('should refuse scoped sub-flows outside parallel batch branches', async () => {
+    const store = new MemoryCheckpointStore();
+    const scoped = new AsyncFlow(new Visit('inner'));
+    scoped.scope = { outputs: ['visits'] };
+    const nested = new ParallelItems(new AsyncFlow(chain(new Count(), scoped)));
+    nested.scope = { inputs: ['items'], outputs: ['visits'], merge: { visits: (all: string[] = [], visits: string[]) => [...all, ...visits] } };
+    const shared: SharedStore = { items: ['1', '2'] };
+
+    await expect(new AsyncFlow(chain(new Visit('a'), scoped)).runAsync({}, { checkpoint: { store, id: 'scoped' } })).rejects.toThrow('a checkpointed run cannot enter a scoped flow');
+    await nested.runAsync(shared, { checkpoint: { store, id: 'in-branch' } });
+
+    expect(shared.visits.sort()).toEqual(['inner:1', 'inner:2']);
+  });
+
+  it('should run from the start when there is no checkpoint', async () => {
+    const shared: SharedStore = {};
+    const flow = new AsyncFlow(chain(new Visit('a'), new Visit('b')));
+
+    await flow.resumeAsync(shared, { checkpoint: { store: new MemoryCheckpointStore(), id: 'none' } });
+
+    expect(shared.visits).toEqual(['a', 'b']);
+  });
+
+  it('should persist checkpoints to files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pocketflow-'));
+    try {
+      const store = new FileCheckpointStore(dir);
+      await store.save({ id: 'job/1', shared: { n: 1 }, frames: [{ node: 0, name: 'Visit', params: {} }], savedAt: 1 });
+
+      expect(await store.load('job/1')).toEqual({ id: 'job/1', shared: { n: 1 }, frames: [{ node: 0, name: 'Visit', params: {} }], savedAt: 1 });
+      await store.delete('job/1');
+      expect(await store.load('job/1')).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
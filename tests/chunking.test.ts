@@ -0,0 +1,79 @@
+import { Flow, SharedStore, chain } from '../src/index';
+import { fixedSizeChunks, recursiveChunks, sentenceChunks, markdownChunks, ChunkNode, Chunk } from '../src/chunking';
+
+const words = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+const offsetsMatch = (source: string, chunks: Chunk[]): boolean => chunks.every(c => source.slice(c.start, c.end) === c.text);
+
+describe('Chunkers', () => {
+  const text = 'Dr. Smith went to Washington. He arrived at 3.30 p.m. on Monday! Was it raining? "Yes," he said.\n\nA new paragraph starts here. It has two sentences.';
+
+  it('should split fixed-size chunks with overlap', () => {
+    const chunks = fixedSizeChunks('abcdefghij', { size: 4, overlap: 1, metadata: { doc: 'x' } });
+
+    expect(chunks.map(c => c.text)).toEqual(['abcd', 'defg', 'ghij']);
+    expect(chunks[1]).toEqual({ text: 'defg', start: 3, end: 7, index: 1, metadata: { doc: 'x' } });
+    expect(() => fixedSizeChunks('abc', { size: 2, overlap: 2 })).toThrow(RangeError);
+  });
+
+  it('should split recursively on the coarsest separator', () => {
+    const chunks = recursiveChunks(text, { size: 50 });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'Dr. Smith went to Washington.',
+      'He arrived at 3.30 p.m.',
+      'on Monday! Was it raining? "Yes," he said.',
+      'A new paragraph starts here. It has two sentences.',
+    ]);
+    expect(offsetsMatch(text, chunks)).toBe(true);
+  });
+
+  it('should keep sentences whole and overlap by sentences', () => {
+    const chunks = sentenceChunks(text, { size: 80, overlap: 40 });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'Dr. Smith went to Washington. He arrived at 3.30 p.m. on Monday!',
+      'He arrived at 3.30 p.m. on Monday! Was it raining? "Yes," he said.',
+      'Was it raining? "Yes," he said.\n\nA new paragraph starts here.',
+      'A new paragraph starts here. It has two sentences.',
+    ]);
+    expect(offsetsMatch(text, chunks)).toBe(true);
+  });
+
+  it('should measure limits with a pluggable token counter', () => {
+    const chunks = recursiveChunks('one two three four five six seven', { size: 3, overlap: 1, length: words });
+
+    expect(chunks.map(c => c.text)).toEqual(['one two three', 'three four five', 'five six seven']);
+    expect(sentenceChunks('A b c d e f g h.', { size: 3, length: words }).map(c => c.text)).toEqual(['A b c', 'd e f', 'g h.']);
+  });
+
+  it('should split Markdown by headings and record the heading path', () => {
+    const md = 'Intro.\n\n# Guide\n\nSome guide.\n\n## Install\n\n```sh\n# not a heading\nnpm i\n```\n\n## Use\n\nUse it.\n# Other\nMore.';
+    const chunks = markdownChunks(md, { size: 200 });
+
+    expect(chunks.map(c => [c.text, c.metadata.headings])).toEqual([
+      ['Intro.', []],
+      ['# Guide\n\nSome guide.', ['Guide']],
+      ['## Install\n\n```sh\n# not a heading\nnpm i\n```', ['Guide', 'Install']],
+      ['## Use\n\nUse it.', ['Guide', 'Use']],
+      ['# Other\nMore.', ['Other']],
+    ]);
+    expect(offsetsMatch(md, chunks)).toBe(true);
+    expect(markdownChunks(md, { size: 20 }).filter(c => (c.metadata.headings as string[])[1] === 'Install').length).toBeGreaterThan(1);
+  });
+});
+
+describe('ChunkNode', () => {
+  it('should chunk every document into shared.chunks', () => {
+    const shared: SharedStore = {
+      documents: [{ id: 'a', text: 'First one. Second one.', metadata: { lang: 'en' } }, 'No id here.'],
+    };
+
+    new Flow(chain(new ChunkNode({ strategy: 'sentence', size: 12 }))).run(shared);
+
+    expect(shared.chunks).toEqual([
+      { id: 'a#0', text: 'First one.', start: 0, end: 10, index: 0, metadata: { lang: 'en', source: 'a' } },
+      { id: 'a#1', text: 'Second one.', start: 11, end: 22, index: 1, metadata: { lang: 'en', source: 'a' } },
+      { text: 'No id here.', start: 0, end: 11, index: 0, metadata: {} },
+    ]);
+  });
+});
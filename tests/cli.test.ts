@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main, CliIO } from '../src/cli';
+
+const INDEX = JSON.stringify(path.resolve(__dirname, '../src/index'));
+const FLOWS = `
+const { Node, AsyncNode, Flow, AsyncFlow } = require(${INDEX});
+class Greet extends Node {
+  prep(shared) { return shared.name; }
+  exec(name) { return 'Hello, ' + name; }
+  post(shared, name, greeting) { shared.greeting = greeting; return 'greeted'; }
+}
+class Done extends Node {}
+const greet = new Greet();
+greet.onAction('greeted').connectTo(new Done());
+exports.greeting = new Flow(greet);
+
+class Ask extends AsyncNode {
+  async postAsync(shared) { shared.turns = (shared.turns || 0) + 1; return 'again'; }
+}
+const ask = new Ask();
+ask.onAction('again').connectTo(ask);
+exports.loop = new AsyncFlow(ask);
+`;
+
+const io = (stdin = ''): CliIO & { stdout: string; stderr: string } => {
+  const sink = {
+    stdout: '', stderr: '', cwd: '',
+    out: (text: string) => { sink.stdout += text; },
+    err: (text: string) => { sink.stderr += text; },
+    stdin: async () => stdin,
+  };
+  return sink;
+};
+
+describe('pocketflow CLI', () => {
+  let dir: string;
+  const cli = async (argv: string[], stdin?: string): Promise<{ code: number; stdout: string; stderr: string }> => {
+    const sink = io(stdin);
+    sink.cwd = dir;
+    const code = await main(argv, sink);
+    return { code, stdout: sink.stdout, stderr: sink.stderr };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pocketflow-cli-'));
+    fs.writeFileSync(path.join(dir, 'flows.js'), FLOWS);
+    fs.writeFileSync(path.join(dir, 'single.js'), FLOWS.replace('exports.loop =', 'const loop ='));
+  });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  it('should run the exported flow on a shared store from a file or stdin', async () => {
+    fs.writeFileSync(path.join(dir, 'shared.json'), '{"name": "Ada"}');
+
+    const fromFile = await cli(['run', 'single.js', '--shared', 'shared.json']);
+    const fromStdin = await cli(['run', 'flows.js', '--export=greeting', '--shared', '-', '--trace'], '{"name": "Bob"}');
+
+    expect(fromFile.code).toBe(0);
+    expect(JSON.parse(fromFile.stdout)).toEqual({ action: null, shared: { name: 'Ada', greeting: 'Hello, Ada' } });
+    expect(JSON.parse(fromStdin.stdout).shared.greeting).toBe('Hello, Bob');
+    expect(fromStdin.stderr).toMatch(/^Flow \[\d+ms\]\n {2}Greet \[\d+ms\] -> "greeted"\n {2}Done \[\d+ms\]\n$/);
+  });
+
+  it('should keep node logs off stdout', async () => {
+    fs.writeFileSync(path.join(dir, 'logs.js'), FLOWS.replace("shared.greeting = greeting;", "shared.greeting = greeting; console.log('greeted', shared.name);").replace('exports.loop =', 'const loop ='));
+    const log = console.log;
+
+    const { code, stdout, stderr } = await cli(['run', 'logs.js', '--shared', '-'], '{"name": "Ada"}');
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout).shared.greeting).toBe('Hello, Ada');
+    expect(stderr).toBe('greeted Ada\n');
+    expect(console.log).toBe(log);
+  });
+
+  it('should stop a runaway flow at --max-steps', async () => {
+    const { code, stdout, stderr } = await cli(['run', 'flows.js', '--export', 'loop', '--max-steps', '3']);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('FlowLimitError: AsyncFlow stopped at maxSteps: 3 steps');
+  });
+
+  it('should print the graph and validation results', async () => {
+    const graph = await cli(['viz', 'flows.js', '--export', 'greeting', '--format', 'dot', '--direction', 'LR']);
+    const ok = await cli(['validate', 'single.js']);
+    const loop = await cli(['validate', 'flows.js', '--export', 'loop', '--strict']);
+
+    expect(graph.stdout).toContain('rankdir=LR');
+    expect(graph.stdout).toContain('label="greeted"');
+    expect(ok).toEqual({ code: 0, stdout: 'No issues found\n', stderr: '' });
+    expect(loop.code).toBe(1);
+    expect(loop.stdout).toMatch(/^error loop-without-exit at /);
+  });
+
+  it('should run a flow built with another copy of the library, but not draw or validate it', async () => {
+    fs.writeFileSync(path.join(dir, 'foreign.js'), `
+class Flow { constructor(start) { this.startNode = start; } run(shared) { shared.ran = true; return null; } }
+exports.flow = new Flow({ successors: new Map() });
+`);
+
+    const ran = await cli(['run', 'foreign.js']);
+    const graph = await cli(['viz', 'foreign.js']);
+    const checked = await cli(['validate', 'foreign.js']);
+
+    expect(JSON.parse(ran.stdout).shared).toEqual({ ran: true });
+    expect([graph.code, checked.code]).toEqual([2, 2]);
+    expect(graph.stdout).toBe('');
+    expect(checked.stderr).toMatch(/^'validate' needs a flow built with the pocketflow-ts this CLI runs from, not another copy/);
+  });
+
+  it('should explain bad usage', async () => {
+    const several = await cli(['run', 'flows.js']);
+    const badJson = await cli(['run', 'single.js', '--shared', '-'], '[1]');
+    const unknown = await cli(['deploy', 'flows.js']);
+
+    expect(several.code).toBe(2);
+    expect(several.stderr).toContain("'flows.js' exports several flows (greeting, loop); pick one with --export");
+    expect(badJson.stderr).toContain('The shared store must be a JSON object');
+    expect(unknown.stderr).toMatch(/^Unknown command 'deploy'\n\nUsage: pocketflow/);
+    expect((await cli(['--help'])).stdout).toMatch(/^Usage: pocketflow/);
+  });
+});
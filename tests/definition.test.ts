@@ -0,0 +1,131 @@
+import { Node, Flow, AsyncFlow, AsyncNode, SharedStore, branch, chain } from '../src/index';
+import { NodeRegistry, loadFlow, serializeFlow, checkFlowDefinition, FlowDefinitionError } from '../src/definition';
+
+class Greet extends Node {
+  post(shared: SharedStore): string | undefined {
+    (shared.log ??= []).push(`hello ${this.params.name}`);
+    return shared.log.length < 3 ? 'again' : undefined;
+  }
+}
+
+class Shout extends Node {
+  post(shared: SharedStore): undefined {
+    shared.log.push(String(this.params.text).toUpperCase());
+    return undefined;
+  }
+}
+
+class Fetch extends AsyncNode {}
+
+const registry = (): NodeRegistry => new NodeRegistry().register('Greet', Greet).register('Shout', Shout).register('Fetch', Fetch);
+
+describe('Flow definitions', () => {
+  it('should build a runnable flow with params, retries and transitions', () => {
+    const flow = loadFlow({
+      start: 'greet',
+      nodes: {
+        greet: { type: 'Greet', params: { name: 'ada' }, retries: 3, wait: 0.5, next: { again: 'greet', default: 'shout' } },
+        shout: { type: 'Shout', params: { text: 'done' } },
+      },
+    }, registry());
+    const shared: SharedStore = {};
+
+    flow.run(shared);
+
+    expect(shared.log).toEqual(['hello ada', 'hello ada', 'hello ada', 'DONE']);
+    expect((flow.startNode as Greet).maxRetries).toBe(3);
+    expect((flow.startNode as Greet).wait).toBe(0.5);
+  });
+
+  it('should keep defined node params as defaults under the flow params', () => {
+    const flow = loadFlow({
+      params: { text: 'flow' },
+      start: 'greet',
+      nodes: {
+        greet: { type: 'Greet', params: { name: 'ada', text: 'node' }, next: { again: 'greet', default: 'shout' } },
+        shout: { type: 'Shout' },
+      },
+    }, registry());
+    const shared: SharedStore = {};
+
+    flow.run(shared);
+
+    expect(shared.log).toEqual(['hello ada', 'hello ada', 'hello ada', 'FLOW']);
+    expect(flow.startNode!.params).toEqual({ name: 'ada', text: 'node' });
+  });
+
+  it('should build nested sub-flows and async flows', () => {
+    const flow = loadFlow<AsyncFlow>({
+      type: 'AsyncFlow',
+      start: 'fetch',
+      nodes: {
+        fetch: { type: 'Fetch', next: { default: 'inner' } },
+        inner: { type: 'Flow', start: 'shout', nodes: { shout: { type: 'Shout', params: { text: 'x' } } } },
+      },
+    }, registry());
+
+    expect(flow).toBeInstanceOf(AsyncFlow);
+    expect(flow.startNode!.successors.default).toBeInstanceOf(Flow);
+    expect((flow.startNode!.successors.default as Flow).startNode).toBeInstanceOf(Shout);
+  });
+
+  it('should report every problem with its location', () => {
+    const doc = {
+      start: 'greet',
+      nodes: {
+        greet: { type: 'Greet', retries: 0, next: { search: 'serch' } },
+        inner: { type: 'Flow', start: 'missing', nodes: { x: { type: 'Nope' } } },
+        shout: { type: 'Shout', nodes: {}, extra: true },
+      },
+    };
+
+    expect(checkFlowDefinition(doc, registry())).toEqual([
+      { path: '/nodes/greet/retries', message: 'must be an integer >= 1' },
+      { path: '/nodes/greet/next/search', message: "unknown node 'serch'" },
+      { path: '/nodes/inner/start', message: "unknown node 'missing'" },
+      { path: '/nodes/inner/nodes/x/type', message: "unknown node type 'Nope'" },
+      { path: '/nodes/shout/extra', message: "unknown property 'extra'" },
+      { path: '/nodes/shout', message: "'Shout' is not a flow type, so it cannot have 'start' or 'nodes'" },
+    ]);
+    expect(() => loadFlow(doc, registry())).toThrow(FlowDefinitionError);
+    expect(() => loadFlow({ start: 1 }, registry())).toThrow('/start: must be a string naming the start node');
+  });
+
+  it('should serialize a flow built with chain and branch', () => {
+    const greet = new Greet(2);
+    greet.setParams({ name: 'ada' });
+    branch(greet, 'again', greet);
+    chain(greet, new Shout(), new Shout());
+
+    expect(serializeFlow(new Flow(greet), registry())).toEqual({
+      type: 'Flow',
+      start: 'greet',
+      nodes: {
+        greet: { type: 'Greet', params: { name: 'ada' }, retries: 2, next: { again: 'greet', default: 'shout' } },
+        shout: { type: 'Shout', next: { default: 'shout2' } },
+        shout2: { type: 'Shout' },
+      },
+    });
+  });
+
+  it('should round-trip a loaded document', () => {
+    const doc = {
+      type: 'Flow',
+      params: { lang: 'en' },
+      start: 'first',
+      nodes: {
+        first: { type: 'Greet', next: { default: 'sub' } },
+        sub: { type: 'Flow', start: 'loud', nodes: { loud: { type: 'Shout', wait: 1 } } },
+      },
+    };
+
+    expect(serializeFlow(loadFlow(doc, registry()), registry())).toEqual(doc);
+  });
+
+  it('should refuse unregistered node classes', () => {
+    class Unknown extends Node {}
+
+    expect(() => serializeFlow(new Flow(new Unknown()), registry())).toThrow('Unknown is not registered');
+    expect(() => registry().register('Greet', Greet)).toThrow("Node type 'Greet' is already registered");
+  });
+});
@@ -1,4 +1,4 @@
-import { Node, Flow, BatchNode, SharedStore, chain, branch } from '../src/index';
+import { Node, Flow, BatchNode, SharedStore, RetryPolicy, FlowLimitError, retryAfterHint, chain, branch } from '../src/index';
 
 // Extended SharedStore interface for tests
 interface TestSharedStore extends SharedStore {
@@ -313,5 +313,225 @@ describe('PocketFlow TypeScript', () => {
       
       expect(shared).toHaveProperty('result', 'param: test-value');
     });
+
+    it("should replace a node's params with the flow's", () => {
+      const seen: any[] = [];
+      class Record extends Node {
+        prep(): void {
+          seen.push(this.params);
+        }
+      }
+      const node = new Record();
+      node.setParams({ own: 1, shared: 'node' });
+      const flow = new Flow(node);
+      flow.setParams({ shared: 'flow' });
+
+      flow.run({});
+
+      expect(seen).toEqual([{ shared: 'flow' }]);
+    });
+  });
+
+  describe('Hooks', () => {
+    it('should report node, phase and transition events through nested flows', () => {
+      const events: string[] = [];
+      const inner = new Flow(new TestActionNode());
+      const outer = new Flow(inner);
+      inner.connectTo(new TestNode());
+      outer.use({
+        onFlowStart: e => events.push(`flow:${e.node.constructor.name}`),
+        onNodeStart: e => events.push(`start:${e.node.constructor.name}`),
+        onNodeEnd: e => events.push(`end:${e.node.constructor.name}:${e.action}`),
+        onTransition: e => events.push(`-> ${e.to ? e.to.constructor.name : 'end'}`),
+      });
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      outer.run({});
+
+      expect(events).toEqual([
+        'flow:Flow',
+        'start:Flow', 'flow:Flow',
+        'start:TestActionNode', 'end:TestActionNode:test-action', '-> end',
+        'end:Flow:test-action', '-> end',
+      ]);
+      consoleSpy.mockRestore();
+    });
+
+    it('should report retries, fallback and the attempt that succeeded', () => {
+      class FlakyNode extends Node {
+        private calls = 0;
+        exec(): string { if (++this.calls < 2) throw new Error('flaky'); return 'ok'; }
+      }
+      class BrokenNode extends Node {
+        exec(): string { throw new Error('broken'); }
+        execFallback(): string { return 'fallback'; }
+      }
+      const retries: number[] = [], fallbacks: string[] = [], attempts: (number | undefined)[] = [];
+      const hooks = {
+        onRetry: (e: { attempt: number }) => retries.push(e.attempt),
+        onFallback: (e: { error: unknown }) => fallbacks.push((e.error as Error).message),
+        onPhaseEnd: (e: { phase: string; attempt?: number }) => { if (e.phase === 'exec') attempts.push(e.attempt); },
+      };
+
+      new FlakyNode(3, 0).use(hooks).run({});
+      new BrokenNode(2, 0).use(hooks).run({});
+
+      expect(retries).toEqual([1, 1]);
+      expect(fallbacks).toEqual(['broken']);
+      expect(attempts).toEqual([2, 2]);
+    });
+
+    it('should call prep only once per run', () => {
+      let preps = 0;
+      class CountingNode extends Node { prep(): void { preps++; } }
+
+      new CountingNode().run({});
+
+      expect(preps).toBe(1);
+    });
+  });
+
+  describe('RetryPolicy', () => {
+    it('should grow waits exponentially up to maxWait', () => {
+      const policy = RetryPolicy.exponential({ maxAttempts: 5, wait: 1, maxWait: 5, jitter: 0 });
+
+      expect([1, 2, 3, 4, 5].map(attempt => policy.delay(attempt, new Error()))).toEqual([1, 2, 4, 5, null]);
+    });
+
+    it('should shorten waits by the jitter fraction', () => {
+      const policy = new RetryPolicy({ maxAttempts: 3, wait: 2, jitter: 0.5, random: () => 1 });
+
+      expect(policy.delay(1, new Error())).toBe(1);
+    });
+
+    it('should honor retry-after hints carried on errors', () => {
+      const policy = RetryPolicy.fixed(3, 1);
+
+      expect(policy.delay(1, Object.assign(new Error('rate limited'), { retryAfter: 7 }))).toBe(7);
+      expect(policy.delay(1, { headers: { 'retry-after': '3' } })).toBe(3);
+      expect(retryAfterHint({ headers: new Map([['retry-after-ms', '250']]) })).toBe(0.25);
+      expect(retryAfterHint(new Error('plain'))).toBeNull();
+    });
+
+    it('should wait out retry-after hints above maxWait', () => {
+      const policy = RetryPolicy.exponential({ maxAttempts: 3, wait: 1, maxWait: 30, random: () => 0 });
+
+      expect(policy.delay(1, Object.assign(new Error('rate limited'), { retryAfter: 60 }))).toBe(60);
+      expect(policy.delay(2, new Error('plain'))).toBe(2);
+    });
+
+    it('should only retry errors accepted by retryIf', () => {
+      class ValidationError extends Error {}
+      class Strict extends Node {
+        public calls = 0;
+
+        constructor() {
+          super(new RetryPolicy({ maxAttempts: 5, retryIf: e => !(e instanceof ValidationError) }));
+        }
+
+        exec(): string {
+          this.calls++;
+          throw this.calls < 3 ? new Error('rate limited') : new ValidationError('bad output');
+        }
+
+        execFallback(prepRes: any, exc: Error): string {
+          return exc.message;
+        }
+
+        post(shared: TestSharedStore, prepRes: any, execRes: string): undefined {
+          shared.result = execRes;
+          shared.attempts = this.calls;
+          return undefined;
+        }
+      }
+      const shared: TestSharedStore = {};
+
+      new Strict().run(shared);
+
+      expect(shared).toMatchObject({ result: 'bad output', attempts: 3 });
+    });
+
+    it('should keep maxRetries and wait as a fixed policy', () => {
+      const node = new Node(4, 0.5);
+
+      expect(node.maxRetries).toBe(4);
+      expect(node.retryPolicy).toBeNull();
+      expect(new RetryPolicy({ maxAttempts: 4, wait: 0.5 }).delay(2, new Error())).toBe(0.5);
+    });
+  });
+
+  describe('Loop guards', () => {
+    class Decide extends Node {
+      post(shared: SharedStore): string {
+        shared.decisions = (shared.decisions || 0) + 1;
+        return 'search';
+      }
+    }
+    class Search extends Node {
+      post(): string {
+        return 'decide';
+      }
+    }
+    class Degrade extends Node {
+      post(shared: SharedStore): undefined {
+        shared.degraded = true;
+        return undefined;
+      }
+    }
+
+    const endlessFlow = (): Flow => {
+      const decide = new Decide();
+      branch(decide, 'search', branch(new Search(), 'decide', decide));
+      return new Flow(decide);
+    };
+
+    it('should throw with the recent path once maxSteps is reached', () => {
+      const flow = endlessFlow();
+      flow.limits = { maxSteps: 5 };
+
+      try {
+        flow.run({});
+        throw new Error('should have stopped');
+      } catch (e) {
+        expect(e).toBeInstanceOf(FlowLimitError);
+        expect((e as FlowLimitError).limit).toBe('maxSteps');
+        expect((e as FlowLimitError).message).toBe('Flow stopped at maxSteps: 5 steps; recent path: Decide -> Search -> Decide -> Search -> Decide');
+      }
+    });
+
+    it('should limit visits per node', () => {
+      const flow = endlessFlow();
+      flow.limits = { maxVisits: 3 };
+      const shared: SharedStore = {};
+
+      expect(() => flow.run(shared)).toThrow('Flow stopped at maxVisits: 3 visits to Decide');
+      expect(shared.decisions).toBe(3);
+    });
+
+    it('should stop on wall-clock time between nodes', () => {
+      class Slow extends Search {
+        exec(): void {
+          const until = Date.now() + 30;
+          while (Date.now() < until);
+        }
+      }
+      const decide = new Decide();
+      branch(decide, 'search', branch(new Slow(), 'decide', decide));
+      const flow = new Flow(decide);
+      flow.limits = { maxTime: 0.05 };
+
+      expect(() => flow.run({})).toThrow(expect.objectContaining({ limit: 'maxTime' }));
+    });
+
+    it('should route to the limit action instead of throwing', () => {
+      const inner = endlessFlow();
+      inner.limits = { maxSteps: 4, action: 'limit' };
+      inner.onAction('limit').connectTo(new Degrade());
+      const shared: SharedStore = {};
+
+      new Flow(inner).run(shared);
+
+      expect(shared).toEqual({ decisions: 2, degraded: true });
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { Node, Flow, AsyncNode, AsyncParallelBatchFlow, SharedStore, Params, chain } from '../src/index';
+import { StoreJournal } from '../src/journal';
+
+class Load extends Node {
+  post(shared: SharedStore): undefined {
+    shared.context = { docs: ['a'] };
+    shared.status = 'loaded';
+    return undefined;
+  }
+}
+class Enrich extends Node {
+  prep(shared: SharedStore): void {
+    shared.context.docs.push('b');
+  }
+  post(shared: SharedStore): undefined {
+    shared.context.summary = 'two docs';
+    delete shared.status;
+    shared.tmp = 1;
+    shared.tmp = 2;
+    return undefined;
+  }
+}
+
+describe('StoreJournal', () => {
+  const run = (): { journal: StoreJournal; shared: SharedStore } => {
+    const journal = new StoreJournal();
+    const shared = journal.track<SharedStore>({ question: 'q' });
+    const flow = new Flow(chain(new Load(), new Enrich()));
+    flow.use(journal);
+    flow.run(shared);
+    return { journal, shared };
+  };
+
+  it('should record writes and deletes with their node and phase', () => {
+    const { journal } = run();
+
+    expect(journal.entries.map(e => [e.op, e.path, e.node, e.phase])).toEqual([
+      ['set', '/context', 'Load', 'post'],
+      ['set', '/status', 'Load', 'post'],
+      ['set', '/context/docs/1', 'Enrich', 'prep'],
+      ['set', '/context/summary', 'Enrich', 'post'],
+      ['delete', '/status', 'Enrich', 'post'],
+      ['set', '/tmp', 'Enrich', 'post'],
+      ['set', '/tmp', 'Enrich', 'post'],
+    ]);
+    expect(journal.entries[0]).toMatchObject({ after: { docs: ['a'] } });
+    expect(journal.entries[0]).not.toHaveProperty('before');
+    expect(journal.history('/context/docs').map(e => e.node)).toEqual(['Load', 'Enrich']);
+    expect(JSON.parse(JSON.stringify(journal)).entries).toHaveLength(7);
+  });
+
+  it('should give each node run its net diff', () => {
+    const { journal } = run();
+
+    expect(journal.diff('Enrich')!.changes).toEqual([
+      { path: '/context/docs/1', after: 'b' },
+      { path: '/context/summary', after: 'two docs' },
+      { path: '/status', before: 'loaded' },
+      { path: '/tmp', after: 2 },
+    ]);
+    expect(journal.diffs().map(d => d.node)).toEqual(['Load', 'Enrich']);
+  });
+
+  it('should roll the store back to before a node', () => {
+    const { journal, shared } = run();
+
+    expect(journal.rollback('Enrich')).toBe(5);
+    expect(shared).toEqual({ question: 'q', context: { docs: ['a'] }, status: 'loaded' });
+    expect(journal.rollback('Load')).toBe(2);
+    expect(shared).toEqual({ question: 'q' });
+    expect(journal.entries).toEqual([]);
+  });
+
+  it('should tell concurrent parallel branches apart', async () => {
+    class Write extends AsyncNode {
+      async prepAsync(shared: SharedStore): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, this.params.ms));
+        shared.results[this.params.id] = `done by ${this.runId}`;
+      }
+    }
+    class Items extends AsyncParallelBatchFlow {
+      async prepAsync(): Promise<Params[]> {
+        return [{ id: 'slow', ms: 20 }, { id: 'fast', ms: 5 }];
+      }
+    }
+    const journal = new StoreJournal();
+    const shared = journal.track<SharedStore>({ results: {} });
+    const flow = new Items(new Write());
+    flow.use(journal);
+
+    await flow.runAsync(shared);
+
+    expect(journal.entries.map(e => e.path)).toEqual(['/results/fast', '/results/slow']);
+    for (const e of journal.entries) expect(e.after).toBe(`done by ${e.runId}`);
+    shared.after = true;
+    expect(journal.entries[2]).toMatchObject({ path: '/after', node: null, runId: null, phase: null });
+  });
+});
@@ -0,0 +1,200 @@
+import { getEventListeners } from 'events';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AsyncNode, RetryPolicy, SharedStore } from '../src/index';
+import {
+  OpenAICompatibleClient, FakeLLMClient, LLMAuthError, LLMRateLimitError, LLMConnectionError, LLMRequestError, LLMResponseError,
+  ChatMessage, isRetryableLLMError,
+} from '../src/llm';
+
+// A local OpenAI-compatible server: each test sets the handler for the next requests
+let handler: (body: any, res: http.ServerResponse) => void;
+const requests: any[] = [];
+let server: http.Server;
+let baseURL: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', c => { raw += c; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ body, headers: req.headers, url: req.url });
+      handler(body, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+beforeEach(() => { requests.length = 0; });
+
+const json = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+describe('OpenAICompatibleClient', () => {
+  it('should send chat messages with options and parse tool calls and usage', async () => {
+    handler = (_, res) => json(res, 200, {
+      model: 'local-model',
+      choices: [{ finish_reason: 'tool_calls', message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'search', arguments: '{"q":"nobel"}' } }] } }],
+      usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+    });
+    const client = new OpenAICompatibleClient({ baseURL, apiKey: 'sk-test', model: 'local-model', defaults: { temperature: 0.2 } });
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'Who won?' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'c0', name: 'lookup', arguments: { id: 1 } }] },
+      { role: 'tool', content: 'nothing', toolCallId: 'c0' },
+    ];
+
+    const response = await client.chat(history, {
+      system: 'Be brief.', maxTokens: 50,
+      tools: [{ name: 'search', description: 'Web search', parameters: { type: 'object', properties: { q: { type: 'string' } } } }],
+    });
+
+    expect(response).toEqual({
+      content: '', model: 'local-model', finishReason: 'tool_calls',
+      toolCalls: [{ id: 'c1', name: 'search', arguments: { q: 'nobel' } }],
+      usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+    });
+    const { body, headers, url } = requests[0];
+    expect(url).toBe('/v1/chat/completions');
+    expect(headers.authorization).toBe('Bearer sk-test');
+    expect(body).toMatchObject({ model: 'local-model', temperature: 0.2, max_tokens: 50, stream: false });
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Who won?' },
+      { role: 'assistant', content: '', tool_calls: [{ id: 'c0', type: 'function', function: { name: 'lookup', arguments: '{"id":1}' } }] },
+      { role: 'tool', content: 'nothing', tool_call_id: 'c0' },
+    ]);
+    expect(body.tools[0]).toEqual({ type: 'function', function: { name: 'search', description: 'Web search', parameters: { type: 'object', properties: { q: { type: 'string' } } } } });
+  });
+
+  it('should stream text deltas and assemble the final response', async () => {
+    handler = (_, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const events = [
+        { model: 'm', choices: [{ delta: { content: 'Hel' } }] },
+        { model: 'm', choices: [{ delta: { content: 'lo' } }] },
+        { model: 'm', choices: [{ delta: { tool_calls: [{ index: 0, id: 't1', function: { name: 'save', arguments: '{"a":' } }] } }] },
+        { model: 'm', choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '1}' } }] }, finish_reason: 'stop' }] },
+        { model: 'm', choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } },
+      ];
+      for (const e of events) res.write(`data: ${JSON.stringify(e)}\n\n`);
+      res.end('data: [DONE]\n\n');
+    };
+    const client = new OpenAICompatibleClient({ baseURL, model: 'm' });
+    const texts: string[] = [];
+    let final: unknown;
+
+    for await (const chunk of client.stream([{ role: 'user', content: 'hi' }])) {
+      if (chunk.type === 'text') texts.push(chunk.text);
+      else final = chunk.response;
+    }
+
+    expect(texts).toEqual(['Hel', 'lo']);
+    expect(final).toEqual({
+      content: 'Hello', model: 'm', finishReason: 'stop',
+      toolCalls: [{ id: 't1', name: 'save', arguments: { a: 1 } }],
+      usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+    });
+    expect(requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('should reject a malformed stream event as a bad response', async () => {
+    handler = (_, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.end('data: {"choices": [\n\n');
+    };
+    const client = new OpenAICompatibleClient({ baseURL, model: 'm' });
+    const read = async (): Promise<void> => {
+      for await (const chunk of client.stream([{ role: 'user', content: 'hi' }])) void chunk;
+    };
+
+    await expect(read()).rejects.toBeInstanceOf(LLMResponseError);
+    expect(isRetryableLLMError(new LLMResponseError('x'))).toBe(false);
+  });
+
+  it('should let go of the caller signal once each request is done', async () => {
+    const client = new OpenAICompatibleClient({ baseURL, model: 'm' });
+    const signal = new AbortController().signal;
+
+    handler = (_, res) => json(res, 200, { choices: [{ message: { content: 'ok' } }] });
+    await client.chat([{ role: 'user', content: 'hi' }], { signal });
+    for await (const chunk of client.stream([{ role: 'user', content: 'hi' }], { signal })) void chunk;
+    handler = (_, res) => json(res, 500, {});
+    await expect(client.chat([{ role: 'user', content: 'hi' }], { signal })).rejects.toThrow();
+
+    expect(getEventListeners(signal, 'abort')).toHaveLength(0);
+  });
+
+  it('should throw typed errors', async () => {
+    const client = new OpenAICompatibleClient({ baseURL, model: 'm' });
+    const ask = (): Promise<unknown> => client.chat([{ role: 'user', content: 'hi' }]);
+
+    handler = (_, res) => json(res, 401, { error: { message: 'bad key' } });
+    await expect(ask()).rejects.toThrow(new LLMAuthError('LLM request failed with 401: bad key', 401));
+    handler = (_, res) => json(res, 404, { error: { message: 'no such model' } });
+    await expect(ask()).rejects.toBeInstanceOf(LLMRequestError);
+    handler = (_, res) => json(res, 429, {}, { 'retry-after': '7' });
+    await expect(ask()).rejects.toMatchObject({ name: 'LLMRateLimitError', retryAfter: 7, status: 429 });
+
+    const offline = new OpenAICompatibleClient({ baseURL: 'http://127.0.0.1:1/v1', model: 'm' });
+    await expect(offline.chat([{ role: 'user', content: 'hi' }])).rejects.toBeInstanceOf(LLMConnectionError);
+  });
+
+  it('should let node retries handle rate limits', async () => {
+    let calls = 0;
+    handler = (_, res) => ++calls === 1
+      ? json(res, 429, {}, { 'retry-after': '0' })
+      : json(res, 200, { choices: [{ message: { content: 'ok' } }] });
+    const client = new OpenAICompatibleClient({ baseURL, model: 'm' });
+    class Ask extends AsyncNode {
+      async execAsync(): Promise<string> {
+        return (await client.chat([{ role: 'user', content: 'hi' }])).content;
+      }
+      async postAsync(shared: SharedStore, prepRes: unknown, answer: string): Promise<undefined> {
+        shared.answer = answer;
+        return undefined;
+      }
+    }
+    const shared: SharedStore = {};
+
+    await new Ask(new RetryPolicy({ maxAttempts: 3, retryIf: isRetryableLLMError })).runAsync(shared);
+
+    expect(shared.answer).toBe('ok');
+    expect(calls).toBe(2);
+  });
+});
+
+describe('FakeLLMClient', () => {
+  it('should reply in order, record requests and throw scripted errors', async () => {
+    const fake = new FakeLLMClient([
+      'The answer is 42',
+      { toolCalls: [{ id: '1', name: 'search', arguments: { q: 'x' } }] },
+      new LLMRateLimitError('slow down', 1),
+    ]);
+
+    const first = await fake.chat([{ role: 'user', content: 'What is it?' }], { system: 'Be brief.' });
+    const second = await fake.chat([{ role: 'user', content: 'Search' }]);
+
+    expect(first).toEqual({
+      content: 'The answer is 42', toolCalls: [], model: 'fake', finishReason: 'stop',
+      usage: { promptTokens: 3, completionTokens: 4, totalTokens: 7 },
+    });
+    expect(second.finishReason).toBe('tool_calls');
+    expect(fake.requests[0].messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+    await expect(fake.chat([])).rejects.toBeInstanceOf(LLMRateLimitError);
+    await expect(fake.chat([])).rejects.toThrow('FakeLLMClient has no reply left');
+  });
+
+  it('should stream the reply word by word', async () => {
+    const fake = new FakeLLMClient([(messages) => `echo ${messages[0].content}`]);
+    const chunks: string[] = [];
+
+    for await (const c of fake.stream([{ role: 'user', content: 'a b' }])) chunks.push(c.type === 'text' ? c.text : `[${c.response.content}]`);
+
+    expect(chunks).toEqual(['echo ', 'a ', 'b', '[echo a b]']);
+  });
+});
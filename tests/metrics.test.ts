@@ -0,0 +1,128 @@
+import { Node, Flow, BatchNode, AsyncFlow, SharedStore, chain } from '../src/index';
+import { FlowMetrics } from '../src/metrics';
+import { FakeLLMClient } from '../src/llm';
+import { Agent, defineTool } from '../src/agent';
+
+class Route extends Node {
+  post(shared: SharedStore): string {
+    return shared.route;
+  }
+}
+class Flaky extends Node {
+  private calls = 0;
+  exec(): string {
+    if (++this.calls < 2) throw new Error('transient');
+    return 'ok';
+  }
+}
+class Broken extends Node {
+  exec(): string {
+    throw new TypeError('always');
+  }
+  execFallback(): string {
+    return 'fallback';
+  }
+}
+class Double extends BatchNode<SharedStore, number, number> {
+  prep(shared: SharedStore): number[] {
+    return shared.items;
+  }
+  exec(item: number): number {
+    return item * 2;
+  }
+}
+
+describe('FlowMetrics', () => {
+  it('should count runs by action, retries and fallbacks', () => {
+    const metrics = new FlowMetrics({ labels: { service: 'test' } });
+    const route = new Route();
+    route.onAction('left').connectTo(new Flaky(2)).connectTo(new Broken());
+    const flow = new Flow(route);
+    flow.use(metrics);
+
+    flow.run({ route: 'left' });
+
+    const { counters } = metrics.snapshot();
+    expect(counters.pocketflow_runs_total.samples.map(s => [s.labels.node, s.labels.kind, s.labels.action, s.value])).toEqual([
+      ['Route', 'node', 'left', 1],
+      ['Flaky', 'node', 'default', 1],
+      ['Broken', 'node', 'default', 1],
+      ['Flow', 'flow', 'default', 1],
+    ]);
+    expect(counters.pocketflow_runs_total.samples[0].labels.service).toBe('test');
+    expect(counters.pocketflow_retries_total.samples).toEqual([{ labels: { service: 'test', node: 'Flaky' }, value: 1 }]);
+    expect(counters.pocketflow_fallbacks_total.samples).toEqual([{ labels: { service: 'test', node: 'Broken' }, value: 1 }]);
+    expect(counters.pocketflow_failures_total).toBeUndefined();
+  });
+
+  it('should count failures by error name', () => {
+    class Fails extends Node {
+      exec(): void {
+        throw new RangeError('bad');
+      }
+    }
+    const metrics = new FlowMetrics();
+    const flow = new Flow(chain(new Fails()));
+    flow.use(metrics);
+
+    expect(() => flow.run({})).toThrow(RangeError);
+
+    expect(metrics.snapshot().counters.pocketflow_failures_total.samples.map(s => s.labels)).toEqual([
+      { node: 'Fails', kind: 'node', error: 'RangeError' },
+      { node: 'Flow', kind: 'flow', error: 'RangeError' },
+    ]);
+  });
+
+  it('should observe durations and batch sizes as histograms', () => {
+    const metrics = new FlowMetrics({ batchBuckets: [2, 5] });
+    const flow = new Flow(chain(new Double()));
+    flow.use(metrics);
+
+    flow.run({ items: [1, 2, 3] });
+    flow.run({ items: [4] });
+
+    const { histograms } = metrics.snapshot();
+    expect(histograms.pocketflow_batch_size.samples).toEqual([{ labels: { node: 'Double' }, count: 2, sum: 4, buckets: { 2: 1, 5: 2, '+Inf': 2 } }]);
+    expect(histograms.pocketflow_phase_duration_seconds.samples.filter(s => s.labels.node === 'Double').map(s => [s.labels.phase, s.count])).toEqual([['prep', 2], ['exec', 2], ['post', 2]]);
+    expect(histograms.pocketflow_run_duration_seconds.samples.map(s => s.labels.kind)).toEqual(['node', 'flow']);
+  });
+
+  it('should render the Prometheus text format', () => {
+    const metrics = new FlowMetrics({ prefix: 'app', labels: { env: 'a "quoted"\nvalue' } });
+    const flow = new Flow(chain(new Double()));
+    flow.use(metrics);
+
+    flow.run({ items: [1, 2] });
+    const text = metrics.toPrometheus();
+
+    expect(text).toContain('# HELP app_runs_total Completed node and flow runs by returned action\n# TYPE app_runs_total counter\n');
+    expect(text).toContain('app_runs_total{env="a \\"quoted\\"\\nvalue",node="Double",kind="node",action="default"} 1\n');
+    expect(text).toContain('# TYPE app_batch_size histogram\n');
+    expect(text).toContain('app_batch_size_bucket{env="a \\"quoted\\"\\nvalue",node="Double",le="5"} 1\n');
+    expect(text).toContain('app_batch_size_bucket{env="a \\"quoted\\"\\nvalue",node="Double",le="+Inf"} 1\n');
+    expect(text).toContain('app_batch_size_sum{env="a \\"quoted\\"\\nvalue",node="Double"} 2\n');
+    expect(text).toContain('app_batch_size_count{env="a \\"quoted\\"\\nvalue",node="Double"} 1\n');
+    metrics.reset();
+    expect(metrics.toPrometheus()).toBe('\n');
+  });
+
+  it('should sum token usage reported by LLM nodes', async () => {
+    const llm = new FakeLLMClient([
+      { toolCalls: [{ id: '1', name: 'echo', arguments: { text: 'hi' } }], usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 } },
+      { content: 'done', usage: { promptTokens: 20, completionTokens: 1, totalTokens: 21 }, model: 'big' },
+    ]);
+    const echo = defineTool<{ text: string }>({ name: 'echo', description: 'Echo', inputSchema: { type: 'object' }, handler: async input => input.text });
+    const metrics = new FlowMetrics();
+    const flow = new AsyncFlow(chain(new Agent({ llm, tools: [echo] })));
+    flow.use(metrics);
+
+    await flow.runAsync({ question: 'q' });
+
+    expect(metrics.snapshot().counters.pocketflow_llm_tokens_total.samples.map(s => [s.labels.model, s.labels.type, s.value])).toEqual([
+      ['fake', 'prompt', 10],
+      ['fake', 'completion', 2],
+      ['big', 'prompt', 20],
+      ['big', 'completion', 1],
+    ]);
+  });
+});
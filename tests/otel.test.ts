@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import { Node, AsyncNode, AsyncFlow, AsyncParallelBatchFlow, AsyncParallelBatchNode, SharedStore, Params, chain } from '../src/index';
+import { OtelExporter, OtlpExportRequest, OtlpSpan, parseTraceparent } from '../src/otel';
+
+const attr = (span: OtlpSpan, key: string): unknown => {
+  const value = span.attributes.find(a => a.key === key)?.value as Record<string, unknown> | undefined;
+  return value && Object.values(value)[0];
+};
+const spansIn = (file: string): OtlpSpan[][] =>
+  fs.readFileSync(file, 'utf8').trim().split('\n').map(line => (JSON.parse(line) as OtlpExportRequest).resourceSpans[0].scopeSpans[0].spans);
+
+class Flaky extends AsyncNode {
+  private calls = 0;
+  async execAsync(): Promise<string> {
+    if (++this.calls < 2) throw new Error('transient');
+    return 'ok';
+  }
+}
+class Work extends AsyncNode {
+  async prepAsync(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, this.params.ms));
+  }
+}
+class Items extends AsyncParallelBatchFlow {
+  async prepAsync(): Promise<Params[]> {
+    return [{ id: 'a', ms: 10 }, { id: 'b', ms: 1 }];
+  }
+}
+
+describe('OtelExporter', () => {
+  let dir: string;
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pocketflow-otel-')); });
+  afterEach(() => { fs.rmSync(dir, { recursive: true, force: true }); });
+
+  it('should export one trace with parent links through nested flows and parallel branches', async () => {
+    class Tag extends AsyncNode {}
+    const file = path.join(dir, 'traces.jsonl');
+    const exporter = new OtelExporter({ file, serviceName: 'orders' });
+    const flow = new AsyncFlow(chain(new Flaky(2), new Items(chain(new Work(), new Tag()))));
+    flow.use(exporter);
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    await exporter.withContext(traceparent, () => flow.runAsync({}));
+    await exporter.flush();
+
+    const [spans] = spansIn(file), byName = (name: string): OtlpSpan[] => spans.filter(s => s.name === name);
+    const [root] = byName('AsyncFlow'), [flaky] = byName('Flaky'), [items] = byName('Items');
+    const branches = [...byName('Items item 0'), ...byName('Items item 1')], children = (s: OtlpSpan): string[] => spans.filter(c => c.parentSpanId === s.spanId).map(c => c.name);
+    expect(spans).toHaveLength(9);
+    expect(spans.every(s => s.traceId === '0af7651916cd43dd8448eb211c80319c')).toBe(true);
+    expect(root.parentSpanId).toBe('b7ad6b7169203331');
+    expect([flaky.parentSpanId, items.parentSpanId]).toEqual([root.spanId, root.spanId]);
+    expect(children(items)).toEqual(['Items item 1', 'Items item 0']);
+    expect(branches.map(children)).toEqual([['Work', 'Tag'], ['Work', 'Tag']]);
+    expect(branches.map(b => attr(b, 'pocketflow.item.index'))).toEqual(['0', '1']);
+    expect(attr(items, 'pocketflow.kind')).toBe('flow');
+    expect(attr(items, 'pocketflow.batch.items')).toBe('2');
+    expect(flaky.events.map(e => e.name)).toEqual(['retry']);
+    expect(attr(flaky, 'pocketflow.attempts')).toBe('2');
+    expect(BigInt(root.endTimeUnixNano) >= BigInt(root.startTimeUnixNano)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'orders' } }]);
+  });
+
+  it('should give every batch node item a span', async () => {
+    class Double extends AsyncParallelBatchNode<SharedStore, number, number> {
+      async prepAsync(): Promise<number[]> {
+        return [1, 2, 3];
+      }
+
+      async execAsync(n: number): Promise<number> {
+        if (n === 2) throw new Error('no twos');
+        return n * 2;
+      }
+    }
+    const file = path.join(dir, 'traces.jsonl');
+    const exporter = new OtelExporter({ file });
+    const flow = new AsyncFlow(chain(new Double()));
+    flow.use(exporter);
+
+    await expect(flow.runAsync({})).rejects.toThrow('no twos');
+    await exporter.flush();
+
+    const [spans] = spansIn(file), double = spans.find(s => s.name === 'Double')!;
+    const items = spans.filter(s => s.parentSpanId === double.spanId);
+    expect(items.map(s => [s.name, s.status.code]).sort()).toEqual([['Double item 0', 0], ['Double item 1', 2], ['Double item 2', 0]]);
+    expect(items.every(s => attr(s, 'pocketflow.kind') === 'item')).toBe(true);
+  });
+
+  it('should mark failed spans and add phase spans on request', async () => {
+    class Fails extends Node {
+      exec(): void {
+        throw new RangeError('bad input');
+      }
+    }
+    const file = path.join(dir, 'traces.jsonl');
+    const exporter = new OtelExporter({ file, phases: true });
+    const node = new Fails();
+    node.use(exporter);
+
+    expect(() => node.run({})).toThrow(RangeError);
+    await exporter.flush();
+
+    const [spans] = spansIn(file), fails = spans.find(s => s.name === 'Fails')!;
+    expect(spans.map(s => s.name)).toEqual(['Fails.prep', 'Fails.exec', 'Fails']);
+    expect(fails.parentSpanId).toBeUndefined();
+    expect(spans[1].parentSpanId).toBe(fails.spanId);
+    expect(fails.status).toEqual({ code: 2, message: 'bad input' });
+    expect(fails.events.map(e => e.name)).toEqual(['fallback', 'exception']);
+  });
+
+  it('should post traces to an OTLP/HTTP endpoint and skip unsampled ones', async () => {
+    const received: { headers: http.IncomingHttpHeaders; body: OtlpExportRequest }[] = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => { received.push({ headers: req.headers, body: JSON.parse(body) }); res.end('{}'); });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+    const exporter = new OtelExporter({ endpoint: `http://127.0.0.1:${port}/v1/traces`, headers: { 'x-tenant': 't1' } });
+    const flow = new AsyncFlow(chain(new Work()));
+    flow.use(exporter);
+
+    try {
+      await flow.runAsync({});
+      await exporter.withContext('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00', () => flow.runAsync({}));
+      await exporter.flush();
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers['x-tenant']).toBe('t1');
+    expect(received[0].body.resourceSpans[0].scopeSpans[0].spans.map(s => s.name)).toEqual(['Work', 'AsyncFlow']);
+  });
+
+  it('should parse traceparent headers', () => {
+    expect(parseTraceparent('00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01')).toEqual({
+      traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331', sampled: true,
+    });
+    expect(parseTraceparent('00-00000000000000000000000000000000-b7ad6b7169203331-01')).toBeNull();
+    expect(parseTraceparent('not a header')).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { AsyncNode, AsyncFlow, SharedStore, branch } from '../src/index';
+import { LLMRecorder, UnrecordedCallError } from '../src/replay';
+
+const tmpFile = (): string => path.join(os.tmpdir(), `pocketflow-replay-${process.pid}-${Math.random().toString(36).slice(2)}`, 'agent.json');
+
+// Stands in for a real provider: answers "search" until the prompt has enough context
+const provider = jest.fn(async (prompt: string): Promise<string> => prompt.includes('result 2') ? 'answer' : 'search');
+
+const agentFlow = (llm: (prompt: string) => Promise<string>): AsyncFlow => {
+  class Decide extends AsyncNode {
+    async prepAsync(shared: SharedStore): Promise<string> {
+      return `Question: ${shared.question}\nContext: ${shared.context.join(', ')}`;
+    }
+    async execAsync(prompt: string): Promise<string> {
+      return llm(prompt);
+    }
+    async postAsync(shared: SharedStore, prepRes: string, action: string): Promise<string> {
+      shared.decisions.push(action);
+      return action;
+    }
+  }
+  class Search extends AsyncNode {
+    async postAsync(shared: SharedStore): Promise<string> {
+      shared.context.push(`result ${shared.context.length + 1}`);
+      return 'decide';
+    }
+  }
+  const decide = new Decide();
+  branch(decide, 'search', branch(new Search(), 'decide', decide));
+  branch(decide, 'answer', new AsyncNode());
+  return new AsyncFlow(decide);
+};
+
+const newShared = (): SharedStore => ({ question: 'Who won?', context: [], decisions: [] });
+
+describe('LLMRecorder', () => {
+  let file: string;
+  beforeEach(() => { file = tmpFile(); provider.mockClear(); });
+  afterEach(() => fs.rm(path.dirname(file), { recursive: true, force: true }));
+
+  it('should record a real run and replay it offline', async () => {
+    const recording = newShared();
+    await agentFlow(new LLMRecorder(file, { mode: 'record' }).wrap(provider)).runAsync(recording);
+    expect(provider).toHaveBeenCalledTimes(3);
+
+    const replayed = newShared();
+    const recorder = new LLMRecorder(file);
+    await agentFlow(recorder.wrap(provider)).runAsync(replayed);
+
+    expect(provider).toHaveBeenCalledTimes(3);
+    expect(replayed.decisions).toEqual(['search', 'search', 'answer']);
+    expect(recorder.unused()).toEqual([]);
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).calls[0]).toEqual({ request: 'Question: Who won?\nContext: ', response: 'search' });
+  });
+
+  it('should fail on unrecorded prompts in strict mode', async () => {
+    const llm = new LLMRecorder(file).wrap(provider);
+
+    await expect(agentFlow(llm).runAsync(newShared())).rejects.toThrow(UnrecordedCallError);
+    expect(provider).not.toHaveBeenCalled();
+  });
+
+  it('should replay repeated prompts in recorded order', async () => {
+    let n = 0;
+    const record = new LLMRecorder(file, { mode: 'record' }).wrapSync((prompt: string) => `${prompt} #${++n}`);
+    record('hi'); record('hi');
+
+    const replay = new LLMRecorder(file).wrapSync((prompt: string) => prompt);
+
+    expect([replay('hi'), replay('hi')]).toEqual(['hi #1', 'hi #2']);
+    expect(() => replay('hi')).toThrow('No recorded response');
+  });
+
+  it('should rewrite the fixture in update mode', async () => {
+    await new LLMRecorder(file, { mode: 'record' }).wrap(async (p: string) => `old ${p}`)('a');
+    const update = new LLMRecorder(file, { mode: 'update' });
+    await update.wrap(async (p: string) => `new ${p}`)('b');
+
+    const strict = new LLMRecorder(file);
+
+    expect(strict.calls).toEqual([{ request: 'b', response: 'new b' }]);
+    await expect(strict.wrap(provider)('a')).rejects.toThrow(UnrecordedCallError);
+  });
+
+  it('should match requests through a custom key', async () => {
+    const match = (req: unknown): unknown => String(req).replace(/at \d+:\d+/, 'at <time>');
+    await new LLMRecorder(file, { mode: 'record', match }).wrap(async (p: string) => 'ok')('ping at 10:15');
+
+    const llm = new LLMRecorder(file, { match }).wrap(provider);
+
+    await expect(llm('ping at 11:42')).resolves.toBe('ok');
+  });
+});
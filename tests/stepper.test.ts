@@ -0,0 +1,96 @@
+import { Node, Flow, AsyncNode, AsyncFlow, FlowError, SharedStore, branch } from '../src/index';
+import { FlowStepper } from '../src/stepper';
+
+class Decide extends Node {
+  post(shared: SharedStore): string {
+    shared.visits = (shared.visits || 0) + 1;
+    return shared.visits < 3 ? 'search' : 'answer';
+  }
+}
+
+class Search extends AsyncNode {
+  async postAsync(shared: SharedStore): Promise<string> {
+    shared.searches = (shared.searches || 0) + 1;
+    return 'decide';
+  }
+}
+
+class Answer extends Node {
+  post(shared: SharedStore): string {
+    shared.answer = `after ${shared.visits} visits`;
+    return 'done';
+  }
+}
+
+const agent = (): AsyncFlow => {
+  const decide = new Decide();
+  const search = new Search();
+  branch(decide, 'search', search);
+  branch(decide, 'answer', new Answer());
+  branch(search, 'decide', decide);
+  return new AsyncFlow(decide);
+};
+
+describe('FlowStepper', () => {
+  it('should run one node per step and expose the pending action', async () => {
+    const stepper = new FlowStepper(agent(), {});
+
+    expect(stepper.current).toBeInstanceOf(Decide);
+    await stepper.step();
+
+    expect(stepper.previous).toBeInstanceOf(Decide);
+    expect(stepper.action).toBe('search');
+    expect(stepper.current).toBeInstanceOf(Search);
+    expect(stepper.shared).toEqual({ visits: 1 });
+  });
+
+  it('should run to the end', async () => {
+    const stepper = new FlowStepper(agent(), {});
+
+    await stepper.continue();
+
+    expect(stepper.finished).toBe(true);
+    expect(stepper.result).toBe('done');
+    expect(stepper.steps).toBe(6);
+    expect(stepper.shared.answer).toBe('after 3 visits');
+    await expect(stepper.step()).rejects.toThrow(FlowError);
+  });
+
+  it('should pause at node class and action breakpoints', async () => {
+    const stepper = new FlowStepper(agent(), {}).breakAt(Answer);
+
+    await stepper.continue();
+    expect(stepper.current).toBeInstanceOf(Answer);
+    expect(stepper.steps).toBe(5);
+
+    const looping = new FlowStepper(agent(), {}).breakAt('decide');
+    await looping.continue();
+    expect(looping.previous).toBeInstanceOf(Search);
+    expect(looping.steps).toBe(2);
+    await looping.continue();
+    expect(looping.steps).toBe(4);
+  });
+
+  it('should continue with an edited store and a forced action', async () => {
+    const stepper = new FlowStepper(agent(), {});
+
+    await stepper.step();
+    stepper.shared.visits = 10;
+    expect(stepper.forceAction('answer')).toBeInstanceOf(Answer);
+    await stepper.continue();
+
+    expect(stepper.shared).toEqual({ visits: 10, answer: 'after 10 visits' });
+    expect(stepper.result).toBe('done');
+  });
+
+  it('should finish when a forced action has no successor', async () => {
+    const stepper = new FlowStepper(new Flow(new Answer()), {});
+
+    expect(() => stepper.forceAction('again')).toThrow('No pending action');
+    await stepper.step();
+    stepper.forceAction('stop');
+    await stepper.continue();
+
+    expect(stepper.result).toBe('stop');
+  });
+});
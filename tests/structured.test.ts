@@ -0,0 +1,114 @@
+import { AsyncFlow, SharedStore } from '../src/index';
+import { FakeLLMClient, ChatMessage } from '../src/llm';
+import { StructuredOutputNode, StructuredOutputError, JsonSchema, validateSchema, extractStructured, parseYaml } from '../src/structured';
+
+interface Decision { action: 'search' | 'answer'; reason: string; query?: string; }
+
+const decisionSchema: JsonSchema = {
+  type: 'object',
+  required: ['action', 'reason'],
+  additionalProperties: false,
+  properties: {
+    action: { enum: ['search', 'answer'] },
+    reason: { type: 'string', minLength: 3 },
+    query: { type: 'string' },
+  },
+};
+
+const decideNode = (llm: FakeLLMClient, maxRetries = 1): StructuredOutputNode<SharedStore, Decision> => {
+  class Decide extends StructuredOutputNode<SharedStore, Decision> {
+    schema = decisionSchema;
+    llm = llm;
+    async prepAsync(shared: SharedStore): Promise<string> {
+      return `Decide what to do about: ${shared.question}`;
+    }
+    async postAsync(shared: SharedStore, prompt: unknown, decision: Decision): Promise<string> {
+      shared.decision = decision;
+      return decision.action;
+    }
+    async execFallbackAsync(): Promise<Decision> {
+      return { action: 'answer', reason: 'gave up' };
+    }
+  }
+  return new Decide(maxRetries);
+};
+
+describe('Structured output', () => {
+  it('should validate values with JSON Pointer paths', () => {
+    expect(validateSchema({ action: 'dance', reason: 'x', extra: 1 }, decisionSchema)).toEqual([
+      { path: '/action', message: 'must be one of "search", "answer"' },
+      { path: '/reason', message: 'must be at least 3 characters' },
+      { path: '/extra', message: 'is not an allowed property' },
+    ]);
+    expect(validateSchema([1, 'two'], { type: 'array', items: { type: 'integer' } })).toEqual([{ path: '/1', message: 'must be integer, got string' }]);
+    expect(validateSchema({}, decisionSchema).map(i => i.path)).toEqual(['/action', '/reason']);
+  });
+
+  it('should extract JSON and YAML from fenced or bare output', () => {
+    expect(extractStructured('Sure!\n```json\n{"action": "search"}\n```\nDone.')).toEqual({ action: 'search' });
+    expect(extractStructured('The result is {"a": [1, 2]} as requested')).toEqual({ a: [1, 2] });
+    expect(extractStructured('```yaml\naction: answer\nreason: |\n  line one\n  line two\n```')).toEqual({ action: 'answer', reason: 'line one\nline two' });
+  });
+
+  it('should parse the YAML subset models write', () => {
+    expect(parseYaml([
+      'thinking: >',
+      '  first part',
+      '  second part',
+      'steps:',
+      '  - name: "fetch: data"',
+      '    retries: 3',
+      '  - name: summarize',
+      '    tags: [a, "b"]',
+      'flags:',
+      '- true',
+      '- ~',
+      "quote: 'it''s' # comment",
+    ].join('\n'))).toEqual({
+      thinking: 'first part second part',
+      steps: [{ name: 'fetch: data', retries: 3 }, { name: 'summarize', tags: '[a, "b"]' }],
+      flags: [true, null],
+      quote: "it's",
+    });
+  });
+
+  it('should hand the typed result to post', async () => {
+    const llm = new FakeLLMClient(['```yaml\naction: search\nreason: need facts\nquery: nobel 2024\n```']);
+    const shared: SharedStore = { question: 'Who won?' };
+
+    const action = await decideNode(llm).runAsync(shared);
+
+    expect(action).toBe('search');
+    expect(shared.decision).toEqual({ action: 'search', reason: 'need facts', query: 'nobel 2024' });
+  });
+
+  it('should re-ask with the validation errors', async () => {
+    const llm = new FakeLLMClient(['{"action": "dance", "reason": "fun"}', '```json\n{"action": \n```', '{"action": "answer", "reason": "enough"}']);
+    const shared: SharedStore = { question: 'Who won?' };
+
+    await new AsyncFlow(decideNode(llm)).runAsync(shared);
+
+    expect(shared.decision).toEqual({ action: 'answer', reason: 'enough' });
+    const last = llm.requests[2].messages;
+    expect(last.map((m: ChatMessage) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(last[2].content).toBe('Your reply was not valid:\n- /action: must be one of "search", "answer"\nReply again with only the corrected JSON in a ```json fenced block.');
+    expect(last[4].content).toContain('- (root): could not be parsed');
+  });
+
+  it('should give up through the retry and fallback machinery', async () => {
+    const llm = new FakeLLMClient(Array(6).fill('{"action": "dance", "reason": "fun"}'));
+    const node = decideNode(llm, 2);
+    node.maxReasks = 1;
+    const errors: unknown[] = [];
+    node.use({ onRetry: e => errors.push(e.error), onFallback: e => errors.push(e.error) });
+    const shared: SharedStore = { question: 'Who won?' };
+
+    await node.runAsync(shared);
+
+    expect(llm.requests).toHaveLength(4);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(StructuredOutputError);
+    expect((errors[0] as StructuredOutputError).issues).toEqual([{ path: '/action', message: 'must be one of "search", "answer"' }]);
+    expect(shared.decision).toEqual({ action: 'answer', reason: 'gave up' });
+  });
+});
@@ -0,0 +1,99 @@
+import { Node, Flow, AsyncNode, AsyncFlow, BatchFlow, SharedStore, Params, chain } from '../src/index';
+import { TraceRecorder } from '../src/trace';
+
+class Step extends Node {
+  exec(): string {
+    return 'done';
+  }
+
+  post(shared: SharedStore): string {
+    shared.steps = (shared.steps || 0) + 1;
+    return 'default';
+  }
+}
+
+class FlakyAsync extends AsyncNode {
+  private calls = 0;
+
+  async execAsync(): Promise<string> {
+    if (++this.calls < 3) throw new Error(`attempt ${this.calls} failed`);
+    return 'ok';
+  }
+
+  async postAsync(): Promise<string> {
+    return 'finish';
+  }
+}
+
+describe('TraceRecorder', () => {
+  it('should build a span tree for nested flows', () => {
+    const recorder = new TraceRecorder();
+    const inner = new Flow(chain(new Step(), new Step()));
+    const outer = new Flow(inner).use(recorder);
+
+    outer.run({});
+
+    expect(recorder.roots).toHaveLength(1);
+    const root = recorder.roots[0];
+    expect(root).toMatchObject({ kind: 'flow', name: 'Flow' });
+    const [prep, exec, post] = root.children;
+    expect([prep.phase, exec.phase, post.phase]).toEqual(['prep', 'exec', 'post']);
+    const nested = exec.children[0];
+    expect(nested.kind).toBe('flow');
+    expect(nested.children[1].children.map(s => s.name)).toEqual(['Step', 'Step']);
+    expect(nested.children[1].children[0]).toMatchObject({ action: 'default', next: 'Step', attempt: 1 });
+  });
+
+  it('should nest the nodes of batch-flow branches under the batch flow', () => {
+    class Pair extends BatchFlow {
+      prep(): Params[] {
+        return [{ id: 1 }, { id: 2 }];
+      }
+    }
+    const recorder = new TraceRecorder();
+    const flow = new Flow(chain(new Pair(new Step()))).use(recorder);
+
+    flow.run({});
+
+    expect(recorder.roots).toHaveLength(1);
+    expect(recorder.format().replace(/\d+ms/g, 'Nms')).toBe([
+      'Flow [Nms] -> null',
+      '  Pair [Nms] -> null',
+      '    Step [Nms] -> "default"',
+      '    Step [Nms] -> "default"',
+    ].join('\n'));
+  });
+
+  it('should record retries and the successful attempt of async nodes', async () => {
+    const recorder = new TraceRecorder();
+    const flow = new AsyncFlow(new FlakyAsync(3, 0)).use(recorder);
+
+    await flow.runAsync({});
+
+    const node = recorder.roots[0].children[1].children[0];
+    expect(node).toMatchObject({ name: 'FlakyAsync', action: 'finish', attempt: 3 });
+    expect(node.retries).toEqual([
+      { attempt: 1, error: 'attempt 1 failed' },
+      { attempt: 2, error: 'attempt 2 failed' },
+    ]);
+  });
+
+  it('should mark failed spans and format the tree as text', () => {
+    class Boom extends Node {
+      exec(): string {
+        throw new Error('boom');
+      }
+    }
+    const recorder = new TraceRecorder();
+    const flow = new Flow(chain(new Step(), new Boom())).use(recorder);
+
+    expect(() => flow.run({})).toThrow('boom');
+
+    expect(recorder.roots[0].error).toBe('boom');
+    expect(recorder.format().replace(/\d+ms/g, 'Nms')).toBe([
+      'Flow [Nms] !! boom',
+      '  Step [Nms] -> "default"',
+      '  Boom [Nms] (fallback: boom) !! boom',
+    ].join('\n'));
+  });
+});
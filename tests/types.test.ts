@@ -0,0 +1,132 @@
+import { Node, Flow, AsyncNode, AsyncFlow, BatchNode, Action, ActionOf, SharedOf, chain, branch } from '../src/index';
+
+// These tests mostly exercise the type checker: ts-jest fails the suite on any type error,
+// including a `@ts-expect-error` that no longer matches one.
+
+interface AgentShared {
+  query: string;
+  context: string[];
+  answer?: string;
+}
+
+type Decision = { action: 'search' | 'answer'; term?: string };
+
+class Decide extends Node<AgentShared, string, Decision, 'search' | 'answer'> {
+  prep(shared: AgentShared): string {
+    return shared.query;
+  }
+
+  exec(query: string): Decision {
+    return query.includes('?') ? { action: 'search', term: query } : { action: 'answer' };
+  }
+
+  post(shared: AgentShared, prepRes: string, execRes: Decision): Action<'search' | 'answer'> {
+    return execRes.action;
+  }
+}
+
+class Search extends Node<AgentShared, string, string, 'decide'> {
+  prep(shared: AgentShared): string {
+    return shared.query.replace('?', '');
+  }
+
+  exec(term: string): string {
+    return `results for ${term}`;
+  }
+
+  post(shared: AgentShared, prepRes: string, execRes: string): Action<'decide'> {
+    shared.context.push(execRes);
+    shared.query = prepRes;
+    return 'decide';
+  }
+}
+
+class Answer extends AsyncNode<AgentShared, string[], string> {
+  async prepAsync(shared: AgentShared): Promise<string[]> {
+    return shared.context;
+  }
+
+  async execAsync(context: string[]): Promise<string> {
+    return context.join('; ');
+  }
+
+  async postAsync(shared: AgentShared, prepRes: string[], execRes: string): Promise<undefined> {
+    shared.answer = execRes;
+    return undefined;
+  }
+}
+
+class Lengths extends BatchNode<AgentShared, string, number> {
+  prep(shared: AgentShared): string[] {
+    return shared.context;
+  }
+
+  exec(item: string): number {
+    return item.length;
+  }
+
+  post(shared: AgentShared, prepRes: string[], execRes: number[]): undefined {
+    shared.answer = String(execRes.reduce((a, b) => a + b, 0));
+    return undefined;
+  }
+}
+
+class Other extends Node<{ unrelated: number }> {}
+
+describe('Typed nodes and flows', () => {
+  it('should wire declared actions and infer the shared store', async () => {
+    const decide = new Decide();
+    const search = new Search();
+    const answer = new Answer();
+
+    branch(decide, 'search', search);
+    branch(decide, 'answer', answer);
+    search.onAction('decide').connectTo(decide);
+    const flow = new AsyncFlow(decide);
+    const shared: SharedOf<typeof flow> = { query: 'who?', context: [] };
+
+    await flow.runAsync(shared);
+
+    expect(shared.answer).toBe('results for who');
+  });
+
+  it('should reject undeclared actions and mismatched shared stores', () => {
+    const decide = new Decide();
+    const action: ActionOf<Decide> = 'search';
+
+    // @ts-expect-error - 'serch' is not an action Decide can return
+    expect(() => branch(decide, 'serch', new Search())).not.toThrow();
+    // @ts-expect-error - Search only returns 'decide'
+    new Search().next(decide, 'answer');
+    // @ts-expect-error - shared store types do not match
+    decide.next(new Other());
+    // @ts-expect-error - the flow's shared store is AgentShared
+    expect(() => new Flow(decide).run({ query: 1 })).toThrow();
+
+    expect(action).toBe('search');
+  });
+
+  it('should type batch exec per item', () => {
+    const shared: AgentShared = { query: '', context: ['ab', 'cde'] };
+
+    chain(new Lengths()).run(shared);
+
+    expect(shared.answer).toBe('5');
+  });
+
+  it('should keep untyped nodes working', () => {
+    class Loose extends Node {
+      exec(prepRes: any): any {
+        return prepRes;
+      }
+
+      post(): string {
+        return 'anything';
+      }
+    }
+    const loose = new Loose();
+    loose.onAction('anything').connectTo(new Node());
+
+    expect(new Flow(loose).run({ any: 'thing' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import { Node, Flow, AsyncNode, AsyncFlow, FlowError, setStrictMode, branch, chain } from '../src/index';
+import { validateFlow, assertValidFlow } from '../src/validate';
+
+class DecideAction extends Node {
+  static actions = ['search', 'answer'];
+}
+
+class SearchWeb extends Node {
+  static actions = ['decide'];
+}
+
+class DirectAnswer extends Node {}
+class Fetch extends AsyncNode {}
+
+const codes = (flow: Flow, opts = {}): string[] => validateFlow(flow, opts).issues.map(i => `${i.severity}:${i.code}`);
+
+describe('validateFlow', () => {
+  it('should accept the agent loop', () => {
+    const decide = new DecideAction();
+    const search = new SearchWeb();
+    branch(decide, 'search', search);
+    branch(decide, 'answer', new DirectAnswer());
+    branch(search, 'decide', decide);
+
+    expect(validateFlow(new Flow(decide))).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should report a missing start node and unreachable nodes', () => {
+    const orphan = new DirectAnswer();
+
+    expect(codes(new Flow(), { nodes: [orphan] })).toEqual(['error:missing-start', 'warning:unreachable']);
+  });
+
+  it('should report loops without an exit action', () => {
+    const a = new DirectAnswer();
+    const b = new DirectAnswer();
+    branch(a, 'again', b);
+    branch(b, 'again', a);
+
+    const result = validateFlow(new Flow(a));
+
+    expect(result.valid).toBe(false);
+    expect(result.issues[0].message).toBe('Loop DirectAnswer -> DirectAnswer -> DirectAnswer in Flow has no exit action');
+  });
+
+  it('should report async nodes inside sync flows, even nested', () => {
+    const inner = new Flow(chain(new DirectAnswer(), new Fetch()));
+    const issues = validateFlow(new AsyncFlow(inner)).issues;
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'async-in-sync-flow', path: 'AsyncFlow > Flow > Fetch' });
+  });
+
+  it('should check declared actions against successors', () => {
+    const decide = new DecideAction();
+    branch(decide, 'serch', new SearchWeb());
+    branch(decide, 'answer', new DirectAnswer());
+
+    expect(codes(new Flow(decide))).toEqual(['error:unknown-action', 'warning:unhandled-action']);
+  });
+
+  it('should report node instances shared between flows', () => {
+    const shared = new DirectAnswer();
+    const first = new Flow(shared);
+    const second = new Flow(shared);
+    first.connectTo(second);
+
+    expect(codes(new Flow(first))).toEqual(['warning:shared-node']);
+  });
+
+  it('should turn warnings into errors in strict mode', () => {
+    const shared = new DirectAnswer();
+    const first = new Flow(shared);
+    first.connectTo(new Flow(shared));
+
+    expect(() => assertValidFlow(new Flow(first))).not.toThrow();
+    expect(() => assertValidFlow(new Flow(first), { strict: true })).toThrow(FlowError);
+  });
+});
+
+describe('Strict mode', () => {
+  afterEach(() => setStrictMode(false));
+
+  it('should throw instead of warning at runtime', () => {
+    setStrictMode(true);
+    const decide = new DecideAction();
+    branch(decide, 'search', new SearchWeb());
+
+    expect(() => branch(decide, 'search', new SearchWeb())).toThrow("Overwriting successor for action 'search'");
+    expect(() => new Flow(decide).run({})).toThrow(new FlowError("Flow ends: 'undefined' not found in ['search']"));
+  });
+
+  it('should throw only in flows that are strict, nested flows included', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const searchFlow = (): Flow => new Flow(branch(new DecideAction(), 'search', new SearchWeb()));
+    const strict = new Flow(chain(searchFlow()));
+    strict.strict = true;
+
+    try {
+      expect(() => strict.run({})).toThrow("Flow ends: 'undefined' not found in ['search']");
+      expect(() => new Flow(chain(searchFlow())).run({})).not.toThrow();
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
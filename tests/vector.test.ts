@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AsyncFlow, SharedStore, chain } from '../src/index';
+import { VectorStore, VectorStoreError, IndexDocumentsNode, RetrieveNode, Embedder, matchesFilter } from '../src/vector';
+
+// Deterministic pseudo-random vectors
+const vectors = (count: number, dim: number, seed: number = 1): number[][] => {
+  let s = seed;
+  const next = (): number => { s = (s * 16807) % 2147483647; return s / 2147483647 - 0.5; };
+  return Array.from({ length: count }, () => Array.from({ length: dim }, next));
+};
+
+describe('VectorStore', () => {
+  it('should add, upsert, get and delete records by id', () => {
+    const store = new VectorStore({ metric: 'l2' });
+
+    store.add([{ id: 'a', vector: [0, 0], metadata: { n: 1 }, text: 'first' }, { id: 'b', vector: [3, 4] }]);
+    store.upsert({ id: 'a', vector: [1, 0], metadata: { n: 2 } });
+
+    expect(store.size).toBe(2);
+    expect(store.get('a')).toEqual({ id: 'a', vector: [1, 0], metadata: { n: 2 } });
+    expect(() => store.add({ id: 'b', vector: [1, 1] })).toThrow("Vector 'b' already exists");
+    expect(() => store.add({ id: 'c', vector: [1, 1, 1] })).toThrow(VectorStoreError);
+    expect(store.delete(['b', 'missing'])).toBe(1);
+    expect(store.ids()).toEqual(['a']);
+  });
+
+  it('should reject a first batch whose vectors differ in dimension', () => {
+    const store = new VectorStore();
+
+    expect(() => store.add([{ id: 'a', vector: [1, 2] }, { id: 'b', vector: [1, 2, 3] }])).toThrow("Vector 'b' has dimension 3, expected 2");
+    expect(() => new VectorStore().upsert([{ id: 'a', vector: [1] }, { id: 'b', vector: [1, 2] }])).toThrow(VectorStoreError);
+    expect(store.size).toBe(0);
+    expect(store.dimension).toBeNull();
+  });
+
+  it('should score hits by metric, best first', () => {
+    const records = [{ id: 'x', vector: [1, 0] }, { id: 'y', vector: [2, 2] }, { id: 'z', vector: [-1, 0] }];
+    const search = (metric: 'cosine' | 'dot' | 'l2'): [string, number][] =>
+      new VectorStore({ metric }).add(records).search([1, 0], { k: 3 }).map(h => [h.id, Number(h.score.toFixed(3))]);
+
+    expect(search('cosine')).toEqual([['x', 1], ['y', 0.707], ['z', -1]]);
+    expect(search('dot')).toEqual([['y', 2], ['x', 1], ['z', -1]]);
+    expect(search('l2')).toEqual([['x', 0], ['z', 2], ['y', 2.236]]);
+  });
+
+  it('should filter on metadata', () => {
+    const store = new VectorStore().add([
+      { id: '1', vector: [1, 0], metadata: { lang: 'en', year: 2019, tags: ['ai'] } },
+      { id: '2', vector: [1, 0.1], metadata: { lang: 'de', year: 2021, tags: ['ai', 'ml'] } },
+      { id: '3', vector: [1, 0.2], metadata: { lang: 'en', year: 2023 } },
+    ]);
+    const ids = (filter: any): string[] => store.search([1, 0], { k: 3, filter }).map(h => h.id);
+
+    expect(ids({ lang: 'en' })).toEqual(['1', '3']);
+    expect(ids({ year: { $gte: 2020, $lt: 2023 } })).toEqual(['2']);
+    expect(ids({ tags: 'ml' })).toEqual(['2']);
+    expect(ids({ $or: [{ lang: 'de' }, { tags: { $exists: false } }] })).toEqual(['2', '3']);
+    expect(ids({ lang: { $nin: ['en'] } })).toEqual(['2']);
+    expect(ids((m: any) => m.year > 2020)).toEqual(['2', '3']);
+    expect(() => matchesFilter({}, { a: { $regex: 'x' } })).toThrow("Unknown filter operator '$regex'");
+  });
+
+  it('should find nearly the same neighbours with HNSW as an exact scan', () => {
+    const data = vectors(2000, 16), queries = vectors(20, 16, 7);
+    const flat = new VectorStore(), hnsw = new VectorStore({ index: { M: 8, efConstruction: 100 } });
+    data.forEach((v, i) => { flat.add({ id: String(i), vector: v, metadata: { even: i % 2 === 0 } }); hnsw.add({ id: String(i), vector: v, metadata: { even: i % 2 === 0 } }); });
+
+    let found = 0;
+    for (const q of queries) {
+      const exact = new Set(flat.search(q, { k: 10 }).map(h => h.id));
+      found += hnsw.search(q, { k: 10 }).filter(h => exact.has(h.id)).length;
+    }
+
+    expect(found / 200).toBeGreaterThan(0.9);
+    expect(hnsw.search(queries[0], { k: 5, filter: { even: true } }).every(h => h.metadata.even)).toBe(true);
+    const nearest = hnsw.search(queries[0], { k: 1 })[0].id;
+    hnsw.delete(nearest);
+    expect(hnsw.search(queries[0], { k: 10 }).map(h => h.id)).not.toContain(nearest);
+  });
+
+  it('should save and load flat and HNSW stores', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vectors-'));
+    try {
+      for (const index of ['flat', 'hnsw'] as const) {
+        const store = new VectorStore({ metric: 'dot', index });
+        vectors(50, 4).forEach((v, i) => store.add({ id: `v${i}`, vector: v, metadata: { i }, text: `t${i}` }));
+        store.delete('v3');
+
+        await store.save(path.join(dir, `${index}.json`));
+        const loaded = await VectorStore.load(path.join(dir, `${index}.json`));
+
+        expect(loaded.indexType).toBe(index);
+        expect(loaded.size).toBe(49);
+        expect(loaded.search([1, 0, 0, 0], { k: 5 })).toEqual(store.search([1, 0, 0, 0], { k: 5 }));
+        loaded.add({ id: 'new', vector: [9, 0, 0, 0] });
+        expect(loaded.search([1, 0, 0, 0], { k: 1 })[0].id).toBe('new');
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('IndexDocumentsNode and RetrieveNode', () => {
+  // Bag-of-letters embedding: texts sharing letters end up close
+  const embed: Embedder = async texts => texts.map(t => Array.from({ length: 26 }, (_, i) => t.toLowerCase().split(String.fromCharCode(97 + i)).length - 1));
+
+  it('should index documents and retrieve the closest ones into shared', async () => {
+    const store = new VectorStore();
+    const index = new IndexDocumentsNode({ store, embed, batchSize: 2 });
+    const retrieve = new RetrieveNode({ store, embed, k: 1, filter: s => s.lang && { lang: s.lang } });
+    const shared: SharedStore = {
+      documents: ['zzz buzz', { id: 'en', text: 'apple banana', metadata: { lang: 'en' } }, { text: 'apfel banane', metadata: { lang: 'de' } }],
+      question: 'banana apple',
+    };
+
+    await new AsyncFlow(chain(index, retrieve)).runAsync(shared);
+    expect(shared.retrieved).toEqual([{ id: 'en', score: expect.closeTo(1, 5), metadata: { lang: 'en' }, text: 'apple banana' }]);
+
+    const german: SharedStore = { ...shared, lang: 'de' };
+    await new AsyncFlow(chain(new IndexDocumentsNode({ store, embed }), retrieve)).runAsync(german);
+    expect(store.size).toBe(3);
+    expect(german.retrieved[0].text).toBe('apfel banane');
+  });
+});
@@ -0,0 +1,76 @@
+import { Node, Flow, branch, chain } from '../src/index';
+import { toMermaid, toDot, flowGraph } from '../src/viz';
+
+class DecideAction extends Node {}
+class SearchWeb extends Node {}
+class DirectAnswer extends Node {}
+class LoadDoc extends Node {}
+class Summarize extends Node {}
+
+const agentFlow = (): Flow => {
+  const decide = new DecideAction();
+  const search = new SearchWeb();
+  branch(decide, 'search', search);
+  branch(decide, 'answer', new DirectAnswer());
+  branch(search, 'decide', decide);
+  return new Flow(decide);
+};
+
+describe('Flow visualization', () => {
+  it('should render the agent loop as Mermaid', () => {
+    expect(toMermaid(agentFlow())).toBe([
+      'flowchart TD',
+      '  n1["DecideAction"]',
+      '  n2["SearchWeb"]',
+      '  n3["DirectAnswer"]',
+      '  n1 -->|"search"| n2',
+      '  n2 -->|"decide"| n1',
+      '  n1 -->|"answer"| n3',
+      '  classDef start stroke-width:3px',
+      '  class n1 start',
+    ].join('\n'));
+  });
+
+  it('should render nested flows as clusters in DOT', () => {
+    const summarize = new Flow(chain(new LoadDoc(), new Summarize()));
+    const decide = new DecideAction();
+    decide.onAction('summarize').connectTo(summarize);
+    summarize.connectTo(new DirectAnswer());
+
+    expect(toDot(new Flow(decide), { direction: 'LR' })).toBe([
+      'digraph Flow {',
+      '  compound=true;',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  n1 [label="DecideAction", penwidth=2];',
+      '  subgraph cluster_n2 {',
+      '    label="Flow";',
+      '    n3 [label="LoadDoc", penwidth=2];',
+      '    n4 [label="Summarize"];',
+      '    n3 -> n4;',
+      '  }',
+      '  n5 [label="DirectAnswer"];',
+      '  n1 -> n3 [label="summarize", lhead=cluster_n2];',
+      '  n3 -> n5 [ltail=cluster_n2];',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should use custom labels and show default actions on request', () => {
+    const flow = new Flow(chain(new LoadDoc(), new Summarize()));
+    const labels = new Map([[flow.startNode, 'Load "report.pdf"']]);
+
+    const mermaid = toMermaid(flow, { label: n => labels.get(n), showDefault: true, direction: 'LR' });
+
+    expect(mermaid).toContain('flowchart LR');
+    expect(mermaid).toContain('n1["Load #quot;report.pdf#quot;"]');
+    expect(mermaid).toContain('n1 -->|"default"| n2');
+  });
+
+  it('should expose the graph structure', () => {
+    const graph = flowGraph(agentFlow());
+
+    expect(graph.nodes.map(n => n.label)).toEqual(['DecideAction', 'SearchWeb', 'DirectAnswer']);
+    expect(graph.edges).toHaveLength(3);
+  });
+});